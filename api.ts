@@ -0,0 +1,28 @@
+import type PanasonicComfortCloudApp from './app';
+
+type HomeyInstance = import('homey/lib/Homey');
+
+interface ApiRequest {
+  homey: HomeyInstance;
+  params: Record<string, string>;
+  body?: { name?: unknown };
+}
+
+const getApp = (homey: HomeyInstance): PanasonicComfortCloudApp => homey.app as PanasonicComfortCloudApp;
+
+/**
+ * Web API of the app. Devices are addressed by their Comfort Cloud device id (`deviceGuid`).
+ */
+module.exports = {
+  async getPresets({ homey, params }: ApiRequest) {
+    return getApp(homey).getDevicePresets(params.deviceId);
+  },
+
+  async savePreset({ homey, params, body }: ApiRequest) {
+    return getApp(homey).saveDevicePreset(params.deviceId, String(body?.name ?? ''));
+  },
+
+  async deletePreset({ homey, params }: ApiRequest) {
+    await getApp(homey).deleteDevicePreset(params.deviceId, params.name);
+  },
+};
@@ -1,15 +1,46 @@
 import Homey from 'homey';
-import ComfortCloudClient from './lib/panasonic/ComfortCloudClient';
-import RateLimiter from './lib/panasonic/RateLimiter';
+import ComfortCloudClient, { ComfortCloudClientOptions } from './lib/panasonic/ComfortCloudClient';
+import OAuth2Client from './lib/panasonic/OAuth2Client';
+import AppVersionManager, { isAppVersion } from './lib/panasonic/AppVersion';
+import AuthSession from './lib/panasonic/AuthSession';
+import CircuitBreaker, { CircuitBreakerSnapshot } from './lib/panasonic/CircuitBreaker';
+import { ComfortCloudError, ReauthenticationRequiredError } from './lib/panasonic/Errors';
+import RateLimiter, { RateLimiterStats } from './lib/panasonic/RateLimiter';
+import RequestBudget, {
+  RequestBudgetSnapshot,
+  RequestBudgetState,
+  isRequestBudgetState,
+} from './lib/panasonic/RequestBudget';
 import SettingsTokenStore from './lib/homey/SettingsTokenStore';
+import AccountStatePoller from './polling/AccountStatePoller';
+import { QuietHoursWindow, createQuietHoursPolicy, parseTimeOfDay } from './polling/PollPolicies';
+import PollScheduler from './polling/PollScheduler';
 import { CredentialsClient, StorageCredentialsClient, TokenStore } from './lib/panasonic/Provider';
-import { PollIntervalConfig, AuthTokens } from './types';
+import {
+  PollIntervalConfig,
+  AuthTokens,
+  AuthProviderKind,
+  ClimatePreset,
+  ProviderLoginRequest,
+} from './types';
+import type { PanasonicAcDevice } from './drivers/panasonic-ac/device';
+
+/** All polls slow down by this factor during the configured quiet hours. */
+const QUIET_HOURS_FACTOR = 3;
 
 interface StoredCredentials {
   email?: string;
   password?: string;
 }
 
+export interface AppDiagnostics {
+  rateLimiter: RateLimiterStats;
+  circuitBreaker: CircuitBreakerSnapshot;
+  requestBudget: RequestBudgetSnapshot;
+}
+
+type AuthProviderSetting = AuthProviderKind | 'auto';
+
 type LegacyStorageManager = {
   getStore<T = unknown>(name: string): TokenStore<T>;
 };
@@ -32,13 +63,42 @@ function createInMemoryTokenStore<T>(): TokenStore<T> {
 
 export default class PanasonicComfortCloudApp extends Homey.App {
   private rateLimiter!: RateLimiter;
+  private circuitBreaker!: CircuitBreaker;
+  private requestBudget!: RequestBudget;
   private credentialsClient!: CredentialsClient;
   private credentialStore!: TokenStore<StoredCredentials>;
+  private session!: AuthSession;
+  private appVersion!: AppVersionManager;
+  private client!: ComfortCloudClient;
+  private statePoller!: AccountStatePoller;
+  private pollScheduler!: PollScheduler;
+
+  private readonly onSettingSet = (key: string): void => {
+    this.handleSettingChanged(key).catch((error: Error) => {
+      this.error('[app.ts] handleSettingChanged("%s") failed: %s', key, error.message);
+    });
+  };
 
   async onInit(): Promise<void> {
     this.rateLimiter = new RateLimiter({
       maxConcurrent: 2,
       minInterval: 400,
+      setTimeout: (callback, ms) => this.homey.setTimeout(callback, ms),
+      clearTimeout: (timer) => this.homey.clearTimeout(timer),
+      logger: (message, ...args) => this.log(message, ...args),
+    });
+
+    this.circuitBreaker = new CircuitBreaker({
+      failureThreshold: 5,
+      openDuration: 60 * 1000,
+      maxOpenDuration: 15 * 60 * 1000,
+      onStateChange: ({ state, retryAt }) => {
+        if (state === 'open') {
+          this.error('[app.ts] Comfort Cloud unavailable, pausing requests until %s', new Date(retryAt ?? Date.now()).toISOString());
+        } else if (state === 'closed') {
+          this.log('[app.ts] Comfort Cloud reachable again, resuming requests');
+        }
+      },
       logger: (message, ...args) => this.log(message, ...args),
     });
 
@@ -57,28 +117,191 @@ export default class PanasonicComfortCloudApp extends Homey.App {
 
     await this.bootstrapSettings();
 
-    this.homey.settings.on('set', async (key) => {
-      try {
-        await this.handleSettingChanged(key);
-      } catch (error) {
-        this.error(
-          '[app.ts] handleSettingChanged("%s") failed: %s',
-          key,
-          (error as Error).message,
-        );
+    this.requestBudget = new RequestBudget({
+      store: this.createPersistentTokenStore<RequestBudgetState>('comfortcloud.requestBudget', isRequestBudgetState),
+      getDailyLimit: () => Number(this.homey.settings.get('dailyRequestLimit')) || 2000,
+      onStretchChanged: () => this.applyPollIntervals(),
+      logger: (message, ...args) => this.log(message, ...args),
+    });
+    await this.requestBudget.load();
+
+    this.session = new AuthSession({
+      credentialsClient: this.credentialsClient,
+      reauthenticate: () => this.loginWithStoredCredentials(),
+      logger: (message, ...args) => this.log(message, ...args),
+    });
+    this.session.onTokensChanged((tokens, previous) => {
+      if (tokens?.userId !== previous?.userId) {
+        this.statePoller?.invalidate();
       }
     });
 
+    this.appVersion = new AppVersionManager({
+      store: this.createPersistentTokenStore<string>('comfortcloud.appVersion', isAppVersion),
+      getOverride: () => this.homey.settings.get('appVersionOverride') ?? undefined,
+      onUnrecoverable: (version) => this.handleAppVersionUnrecoverable(version),
+      onRecovered: (version) => this.log('[app.ts] Comfort Cloud app version updated to %s', version),
+      logger: (message, ...args) => this.log(message, ...args),
+    });
+
+    this.client = this.createClient();
+    this.statePoller = this.createStatePoller();
+
+    // One scheduler for all devices; devices register their poll tasks in it on init.
+    this.pollScheduler = new PollScheduler({
+      logger: (message, ...args) => this.log(message, ...args),
+      jitter: 2000,
+    });
+    this.pollScheduler.setPolicy('quietHours', createQuietHoursPolicy({
+      factor: QUIET_HOURS_FACTOR,
+      getWindow: () => this.getQuietHours(),
+      getMinutesOfDay: (now) => this.getLocalMinutesOfDay(now),
+    }));
+    this.pollScheduler.start();
+
+    this.homey.settings.on('set', this.onSettingSet);
+
     this.log('Panasonic Comfort Cloud app initialized');
   }
 
-  createClient(options: { debug?: boolean } = {}): ComfortCloudClient {
-    return new ComfortCloudClient({
+  async onUninit(): Promise<void> {
+    this.homey.settings.off('set', this.onSettingSet);
+    this.pollScheduler?.stop();
+    this.requestBudget?.persist();
+  }
+
+  createClient(options: { debug?: boolean; provider?: AuthProviderKind } = {}): ComfortCloudClient {
+    const clientOptions: ComfortCloudClientOptions = {
       rateLimiter: this.rateLimiter,
-      credentialsClient: this.credentialsClient,
+      circuitBreaker: this.circuitBreaker,
+      requestBudget: this.requestBudget,
+      session: this.session,
+      appVersion: this.appVersion,
       logger: (message, ...args) => this.log(message, ...args),
       debug: options.debug ?? this.isDebugLoggingEnabled(),
-    });
+    };
+
+    const provider = options.provider ?? this.getAuthProvider();
+    return provider === 'oauth2' ? new OAuth2Client(clientOptions) : new ComfortCloudClient(clientOptions);
+  }
+
+  /**
+   * Logs in with the configured provider. In automatic mode the legacy login is tried first and
+   * accounts it rejects are retried through the Panasonic ID OAuth2 login. The provider that
+   * succeeded is remembered so later clients use it right away.
+   */
+  async authenticate(
+    credentials: ProviderLoginRequest,
+  ): Promise<{ client: ComfortCloudClient; tokens: AuthTokens }> {
+    const configured = this.getAuthProviderSetting();
+    if (configured !== 'auto') {
+      const client = this.createClient({ provider: configured });
+      return { client, tokens: await client.login(credentials) };
+    }
+
+    const legacyClient = this.createClient({ provider: 'legacy' });
+    try {
+      const tokens = await legacyClient.login(credentials);
+      this.setDetectedAuthProvider('legacy');
+      return { client: legacyClient, tokens };
+    } catch (error) {
+      const status = error instanceof ComfortCloudError ? error.status : undefined;
+      if (status === undefined || status >= 500) {
+        throw error;
+      }
+      this.log('[app.ts] Legacy login rejected (%s), retrying with OAuth2 login', status);
+    }
+
+    const oauthClient = this.createClient({ provider: 'oauth2' });
+    const tokens = await oauthClient.login(credentials);
+    this.setDetectedAuthProvider('oauth2');
+    return { client: oauthClient, tokens };
+  }
+
+  /**
+   * Returns a client for a pairing session. When the shared session already belongs to the given
+   * account it is reused as-is; otherwise the account is logged in through {@link authenticate}.
+   */
+  async authenticateForPairing(
+    credentials: ProviderLoginRequest,
+  ): Promise<{ client: ComfortCloudClient; tokens: AuthTokens }> {
+    if (await this.session.isAccount(credentials.email)) {
+      try {
+        const tokens = await this.client.ensureAuthenticated();
+        this.log('[app.ts] Reusing the active Comfort Cloud session for pairing');
+        return { client: this.client, tokens };
+      } catch (error) {
+        this.log('[app.ts] Active session could not be reused for pairing: %s', (error as Error).message);
+      }
+    }
+    return this.authenticate(credentials);
+  }
+
+  /**
+   * Shared client used by all devices. Tokens are owned by the app-wide {@link AuthSession}.
+   */
+  getClient(): ComfortCloudClient {
+    return this.client;
+  }
+
+  getSession(): AuthSession {
+    return this.session;
+  }
+
+  /**
+   * Account-wide circuit breaker shared by all clients; devices use it to report the cloud as
+   * unavailable during an outage.
+   */
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Presets of a device, for the app's Web API.
+   */
+  getDevicePresets(deviceId: string): ClimatePreset[] {
+    return this.getDevice(deviceId).getPresets();
+  }
+
+  async saveDevicePreset(deviceId: string, name: string): Promise<ClimatePreset> {
+    return this.getDevice(deviceId).savePreset(name);
+  }
+
+  async deleteDevicePreset(deviceId: string, name: string): Promise<void> {
+    if (!(await this.getDevice(deviceId).deletePreset(name))) {
+      throw new Error(`Preset "${name}" does not exist.`);
+    }
+  }
+
+  /**
+   * Scheduler running the poll tasks of all devices.
+   */
+  getPollScheduler(): PollScheduler {
+    return this.pollScheduler;
+  }
+
+  /**
+   * Snapshot of the request pipeline for diagnostics.
+   */
+  getDiagnostics(): AppDiagnostics {
+    return {
+      rateLimiter: this.rateLimiter.getStats(),
+      circuitBreaker: this.circuitBreaker.getSnapshot(),
+      requestBudget: this.requestBudget.getSnapshot(),
+    };
+  }
+
+  getAuthProvider(): AuthProviderKind {
+    const configured = this.getAuthProviderSetting();
+    if (configured !== 'auto') {
+      return configured;
+    }
+    const detected = this.homey.settings.get('authProviderDetected');
+    return detected === 'oauth2' ? 'oauth2' : 'legacy';
+  }
+
+  getStatePoller(): AccountStatePoller {
+    return this.statePoller;
   }
 
   getCredentialsClient(): CredentialsClient {
@@ -102,18 +325,57 @@ export default class PanasonicComfortCloudApp extends Homey.App {
     }
   }
 
+  /**
+   * Configured poll intervals, stretched by the daily request budget when it runs low.
+   */
   getPollIntervals(): PollIntervalConfig {
     const essentialSeconds = Number(this.homey.settings.get('pollEssential')) || 75;
     const environmentSeconds = Number(this.homey.settings.get('pollEnvironment')) || 120;
     const extendedMinutes = Number(this.homey.settings.get('pollExtended')) || 15;
+    const stretch = this.requestBudget?.getStretchFactor() ?? 1;
 
     return {
-      essential: essentialSeconds * 1000,
-      environment: environmentSeconds * 1000,
-      extended: extendedMinutes * 60 * 1000,
+      essential: essentialSeconds * 1000 * stretch,
+      environment: environmentSeconds * 1000 * stretch,
+      extended: extendedMinutes * 60 * 1000 * stretch,
     };
   }
 
+  /**
+   * Daily window in which polling slows down, or `null` when quiet hours are disabled.
+   */
+  getQuietHours(): QuietHoursWindow | null {
+    if (!this.homey.settings.get('quietHoursEnabled')) {
+      return null;
+    }
+    const start = parseTimeOfDay(this.homey.settings.get('quietHoursStart'));
+    const end = parseTimeOfDay(this.homey.settings.get('quietHoursEnd'));
+    return start === null || end === null ? null : { start, end };
+  }
+
+  /**
+   * Minutes after midnight in the Homey's timezone.
+   */
+  getLocalMinutesOfDay(now: number): number {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.homey.clock.getTimezone(),
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(now));
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+    return hour * 60 + minute;
+  }
+
+  /**
+   * Time (milliseconds) Comfort Cloud gets after a control request before the state is read back.
+   */
+  getWriteSettleDelay(): number {
+    const seconds = Number(this.homey.settings.get('writeSettleDelay'));
+    return (Number.isFinite(seconds) && seconds > 0 ? seconds : 5) * 1000;
+  }
+
   isDebugLoggingEnabled(): boolean {
     return Boolean(this.homey.settings.get('debugLogging'));
   }
@@ -122,21 +384,95 @@ export default class PanasonicComfortCloudApp extends Homey.App {
     switch (key) {
       case 'accountEmail':
       case 'accountPassword':
-        await this.persistCredentials();
+        if (await this.persistCredentials()) {
+          // Logging in stores new tokens, which resumes devices paused for re-authentication.
+          await this.loginWithStoredCredentials();
+        }
         break;
       case 'rescanDevices':
         await this.handleRescanRequest();
         break;
+      case 'pollEssential':
+      case 'pollEnvironment':
+      case 'pollExtended':
+      case 'quietHoursEnabled':
+      case 'quietHoursStart':
+      case 'quietHoursEnd':
+        this.applyPollIntervals();
+        break;
+      case 'authProvider':
+      case 'authProviderDetected':
+      case 'debugLogging':
+        this.client = this.createClient();
+        this.statePoller = this.createStatePoller();
+        break;
       default:
         break;
     }
   }
 
+  private async loginWithStoredCredentials(): Promise<AuthTokens> {
+    const credentials = await this.getStoredCredentials();
+    if (!credentials?.email || !credentials.password) {
+      this.error('[app.ts] Re-login required but no account credentials are stored');
+      throw new ReauthenticationRequiredError();
+    }
+
+    try {
+      const { tokens } = await this.authenticate({ email: credentials.email, password: credentials.password });
+      this.log('[app.ts] Re-login with stored credentials succeeded');
+      return tokens;
+    } catch (error) {
+      this.error('[app.ts] Re-login with stored credentials failed: %s', (error as Error).message);
+      throw new ReauthenticationRequiredError();
+    }
+  }
+
+  /**
+   * Panasonic rejects the app version and no newer one is known. Every request keeps failing until
+   * a version is configured in the app settings, so the user is told through the timeline.
+   */
+  private handleAppVersionUnrecoverable(version: string): void {
+    this.error('[app.ts] Comfort Cloud rejected app version %s and no newer version was found', version);
+    this.homey.notifications
+      .createNotification({
+        excerpt: `Panasonic Comfort Cloud rejected app version ${version}. `
+          + 'Enter the version of the current Comfort Cloud mobile app under "App version override" in the app settings.',
+      })
+      .catch((error: Error) => {
+        this.error('[app.ts] handleAppVersionUnrecoverable -> createNotification failed: %s', error.message);
+      });
+  }
+
+  private getAuthProviderSetting(): AuthProviderSetting {
+    const value = this.homey.settings.get('authProvider');
+    return value === 'legacy' || value === 'oauth2' ? value : 'auto';
+  }
+
+  private setDetectedAuthProvider(provider: AuthProviderKind): void {
+    if (this.homey.settings.get('authProviderDetected') !== provider) {
+      this.log('[app.ts] Detected Comfort Cloud login provider "%s"', provider);
+      this.homey.settings.set('authProviderDetected', provider);
+    }
+  }
+
+  private createStatePoller(): AccountStatePoller {
+    // Devices poll with jitter, so the snapshot stays valid for most of the essential interval
+    // and the whole account is fetched roughly once per essential cycle.
+    return new AccountStatePoller({
+      client: this.client,
+      maxAge: () => this.getPollIntervals().essential * 0.8,
+      logger: (message, ...args) => this.log(message, ...args),
+    });
+  }
+
   private async bootstrapSettings(): Promise<void> {
     const defaults: Array<[string, number]> = [
       ['pollEssential', 75],
       ['pollEnvironment', 120],
       ['pollExtended', 15],
+      ['dailyRequestLimit', 2000],
+      ['writeSettleDelay', 5],
     ];
     for (const [key, value] of defaults) {
       if (this.homey.settings.get(key) === undefined || this.homey.settings.get(key) === null) {
@@ -145,7 +481,11 @@ export default class PanasonicComfortCloudApp extends Homey.App {
     }
   }
 
-  private async persistCredentials(): Promise<void> {
+  /**
+   * Stores the credentials entered in the app settings. Returns `true` when the stored email or
+   * password changed and both are known.
+   */
+  private async persistCredentials(): Promise<boolean> {
     const existing = (await this.getStoredCredentials()) ?? {};
     const emailValue = this.homey.settings.get('accountEmail');
     const passwordValue = this.homey.settings.get('accountPassword');
@@ -170,11 +510,26 @@ export default class PanasonicComfortCloudApp extends Homey.App {
       }, 0);
     }
 
+    if (next.email === existing.email && next.password === existing.password) {
+      return false;
+    }
     try {
       await this.setStoredCredentials(next);
     } catch (error) {
       this.error('[app.ts] persistCredentials -> setStoredCredentials failed: %s', (error as Error).message);
+      return false;
     }
+    return Boolean(next.email && next.password);
+  }
+
+  /**
+   * Applies the current poll intervals (settings, budget stretch) and quiet hours to all devices.
+   */
+  private applyPollIntervals(): void {
+    const intervals = this.getPollIntervals();
+    this.pollScheduler?.updateGroupInterval('essential', intervals.essential);
+    this.pollScheduler?.updateGroupInterval('environment', intervals.environment);
+    this.pollScheduler?.updateGroupInterval('extended', intervals.extended);
   }
 
   private async handleRescanRequest(): Promise<void> {
@@ -200,6 +555,15 @@ export default class PanasonicComfortCloudApp extends Homey.App {
     }, 0);
   }
 
+  private getDevice(deviceId: string): PanasonicAcDevice {
+    const devices = (this.homey.drivers.getDriver('panasonic-ac').getDevices() ?? []) as PanasonicAcDevice[];
+    const device = devices.find((candidate) => (candidate.getData() as { id: string }).id === deviceId);
+    if (!device) {
+      throw new Error(`Unknown device: ${deviceId}`);
+    }
+    return device;
+  }
+
   private createPersistentTokenStore<T>(
     name: string,
     validate?: (value: unknown) => value is T,
@@ -1,35 +1,155 @@
 import Homey from 'homey';
-import ComfortCloudClient from '../../lib/panasonic/ComfortCloudClient';
-import { buildCapabilityPlan } from '../../lib/panasonic/Mappers';
-import PollScheduler from '../../polling/PollScheduler';
 import {
+  CircuitOpenError,
+  CredentialsMissingError,
+  NetworkTimeoutError,
+  RateLimitedError,
+  ReauthenticationRequiredError,
+  RequestCancelledError,
+  ServerUnavailableError,
+} from '../../lib/panasonic/Errors';
+import {
+  FAN_SPEEDS,
+  buildCapabilityPlan,
+  expandSwingPatch,
+  findUnsupportedSettings,
+  getTemperatureRange,
+  hasSetpoint,
+  mapDeviceFeatures,
+  mergeDeviceFeatures,
+} from '../../lib/panasonic/Mappers';
+import WriteCoalescer from '../../lib/panasonic/WriteCoalescer';
+import ChangeThresholds, { ValueChange } from '../../lib/homey/ChangeThresholds';
+import AvailabilityMonitor, { AvailabilityStatus } from '../../polling/AvailabilityMonitor';
+import { BurstPolicy, createBurstPolicy, createIdlePolicy } from '../../polling/PollPolicies';
+import {
+  CapabilityTriggerId,
+  ClimatePreset,
   DeviceState,
+  EcoMode,
   FanSpeed,
+  HorizontalVanePosition,
   SwingMode,
   ThermostatMode,
+  VerticalVanePosition,
   ComfortDeviceFeatures,
+  OfflineCommandStatus,
+  PresetSettings,
 } from '../../types';
 import type PanasonicComfortCloudApp from '../../app';
 import type PanasonicAcDriver from './driver';
 
+/** Changes made within this period (milliseconds) are sent to the unit as one control request. */
+const WRITE_COALESCE_WINDOW = 400;
+/** Essential polls run at this interval (milliseconds) for a while after a write or external change. */
+const BURST_INTERVAL = 20 * 1000;
+const BURST_DURATION = 3 * 60 * 1000;
+/** Environment and extended polls slow down by this factor while the unit is off. */
+const IDLE_FACTOR = 3;
+/** Reads after the settle delay that may still disagree with a write before it counts as failed. */
+const MAX_RECONCILE_READS = 3;
+
+/**
+ * Values written to the unit that Comfort Cloud has not reported back yet. They are laid over
+ * every state read until the cloud agrees, so the UI does not snap back to the old values.
+ */
+interface PendingWrite {
+  patch: Partial<DeviceState>;
+  sentAt: number;
+  reads: number;
+}
+
+/** Picker titles of the fan speeds, matching the `fan_speed` capability. */
+const FAN_SPEED_TITLES: Record<FanSpeed, string> = {
+  auto: 'Auto',
+  low: 'Low',
+  low_medium: 'Low-mid',
+  medium: 'Medium',
+  medium_high: 'Mid-high',
+  high: 'High',
+};
+
+const QUEUED_COMMAND_KEY = 'queuedCommand';
+const PRESETS_KEY = 'presets';
+const MAX_PRESETS = 50;
+const PRESET_FIELDS: Array<keyof PresetSettings> = [
+  'on',
+  'thermostatMode',
+  'targetTemperature',
+  'fanSpeed',
+  'swingMode',
+  'verticalVane',
+  'horizontalVane',
+];
+
+/**
+ * Desired end state of commands that could not be sent because Comfort Cloud was unreachable.
+ * Kept in the device store so it survives restarts.
+ */
+interface QueuedCommand {
+  patch: Partial<DeviceState>;
+  queuedAt: number;
+  expiresAt: number;
+}
+
+type PollScope = 'essential' | 'environment' | 'extended';
+
+const POLL_SCOPES: PollScope[] = ['essential', 'environment', 'extended'];
+
+const isSamePresetName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const compareReading = (value: number | undefined, predicate: (value: number) => boolean): boolean => (
+  typeof value === 'number' && !Number.isNaN(value) && predicate(value)
+);
+
+const hasEssentialChange = (previous: DeviceState, next: DeviceState): boolean => previous.on !== next.on
+  || previous.thermostatMode !== next.thermostatMode
+  || previous.targetTemperature !== next.targetTemperature;
+
 export class PanasonicAcDevice extends Homey.Device {
-  private client!: ComfortCloudClient;
-  private pollScheduler?: PollScheduler;
+  private burstPolicy?: BurstPolicy;
+  private readonly availability = new AvailabilityMonitor();
+  private readonly changeThresholds = new ChangeThresholds();
+  private changeId = 0;
+  /** Availability last applied to the Homey device. */
+  private availabilityStatus: AvailabilityStatus = { available: true };
+
+  private readonly writeCoalescer = new WriteCoalescer({
+    write: (patch) => this.writePatch(patch),
+    window: WRITE_COALESCE_WINDOW,
+    setTimeout: (callback, ms) => this.homey.setTimeout(callback, ms),
+    clearTimeout: (timer) => this.homey.clearTimeout(timer),
+    logger: (message, ...args) => this.log(message, ...args),
+  });
+
   private lastState?: DeviceState;
-  private polling = false;
+  /** Range last applied to the `target_temperature` options, as "min:max". */
+  private appliedTemperatureRange?: string;
+  private pendingWrite?: PendingWrite;
+  private reconcileTimer?: NodeJS.Timeout;
+  private replaying = false;
+  /** Set while the account has to sign in again; polling resumes once it did. */
+  private pollingPaused = false;
+  private unsubscribeTokens?: () => void;
+  /** Poll of each tier that is in progress; a tier never reads twice at once. */
+  private readonly polls = new Map<PollScope, Promise<void>>();
+  /** Capabilities whose listener is registered. */
+  private readonly listenedCapabilities = new Set<string>();
   private features: ComfortDeviceFeatures = {
-    fanSpeeds: ['auto', 'low', 'medium', 'high'],
+    fanSpeeds: FAN_SPEEDS,
     supportsHumidity: false,
     supportsOutdoorTemperature: false,
     supportsEnergyMonitoring: false,
     supportsSwingVertical: false,
     supportsSwingHorizontal: false,
+    supportsEcoMode: false,
+    supportsNanoe: false,
+    supportsEcoNavi: false,
+    supportsInsideCleaning: false,
   };
 
   async onInit(): Promise<void> {
-    const app = this.homey.app as PanasonicComfortCloudApp;
-    this.client = app.createClient();
-
+    this.availabilityStatus = { available: this.getAvailable() };
     try {
       const storedFeatures = (await this.getStoreValue('features')) as ComfortDeviceFeatures | null;
       if (storedFeatures) {
@@ -46,6 +166,14 @@ export class PanasonicAcDevice extends Homey.Device {
       throw error;
     }
     this.registerCapabilityListeners();
+    this.unsubscribeTokens = (this.homey.app as PanasonicComfortCloudApp).getSession().onTokensChanged((tokens) => {
+      if (tokens && this.pollingPaused) {
+        this.log('[device.ts] Signed in again, resuming polling for "%s"', this.getName());
+        this.resumePolling().catch((error: Error) => {
+          this.error('[device.ts] resumePolling failed: %s', error.message);
+        });
+      }
+    });
     try {
       this.configurePolling();
     } catch (error) {
@@ -53,62 +181,87 @@ export class PanasonicAcDevice extends Homey.Device {
       throw error;
     }
 
-    this.homey.settings.on('set', (key) => {
-      if (key === 'pollEssential' || key === 'pollEnvironment' || key === 'pollExtended') {
-        try {
-          this.configurePolling();
-        } catch (error) {
-          this.error('[device.ts] settings listener -> configurePolling failed: %s', (error as Error).message);
-        }
-      }
+    // The scheduled polls are staggered across devices, so read everything once right away. The
+    // read runs in the background; failures are handled by the poll itself.
+    const scheduler = (this.homey.app as PanasonicComfortCloudApp).getPollScheduler();
+    scheduler.runNow(this.getPollTaskId('extended')).catch((error: Error) => {
+      this.error('[device.ts] onInit -> initial poll failed: %s', error.message);
     });
-
-    await this.pollOnce('essential');
     this.log('Device initialized');
   }
 
+  async onUninit(): Promise<void> {
+    this.unsubscribeTokens?.();
+    this.unregisterPolling();
+  }
+
   async onAdded(): Promise<void> {
     this.log('Device added');
   }
 
   async onDeleted(): Promise<void> {
-    this.pollScheduler?.stop();
+    this.unsubscribeTokens?.();
+    this.unregisterPolling();
+    this.writeCoalescer.cancel(new Error('Device removed'));
+    this.clearPendingWrite();
     this.log('Device removed');
   }
 
-  async handleDriverRescan(): Promise<void> {
+  async handleRepaired(): Promise<void> {
+    await this.resumePolling();
+  }
+
+  /**
+   * Reads the complete state right away instead of waiting for the next scheduled poll. Joins the
+   * extended poll when one is already in progress.
+   */
+  async refreshNow(): Promise<void> {
+    const scheduler = (this.homey.app as PanasonicComfortCloudApp).getPollScheduler();
+    await scheduler.runNow(this.getPollTaskId('extended'));
+  }
+
+  /**
+   * Takes over the features of the unit's entry in a fresh device listing, if the driver found
+   * one, and reads the complete state.
+   */
+  async handleDriverRescan(listed?: ComfortDeviceFeatures): Promise<void> {
     try {
       await this.ensureCapabilities();
     } catch (error) {
       this.error('[device.ts] handleDriverRescan -> ensureCapabilities failed: %s', (error as Error).message);
       throw error;
     }
+    this.registerCapabilityListeners();
+    if (listed) {
+      await this.updateFeatures(listed);
+    }
     await this.pollOnce('extended');
   }
 
+  /**
+   * Registers the listeners of the capabilities the device has and that have none yet, so it can
+   * run again after capabilities were added.
+   */
   private registerCapabilityListeners(): void {
-    this.registerCapabilityListener('onoff', async (value) => {
-      await this.setPower(Boolean(value));
-    });
-
-    this.registerCapabilityListener('thermostat_mode', async (value) => {
-      await this.setThermostatMode(value as ThermostatMode);
-    });
-
-    this.registerCapabilityListener('target_temperature', async (value) => {
-      await this.setTargetTemperature(Number(value));
-    });
-
-    if (this.hasCapability('fan_speed')) {
-      this.registerCapabilityListener('fan_speed', async (value) => {
-        await this.setFanSpeed(value as FanSpeed);
-      });
-    }
+    const listeners: Record<string, (value: unknown) => Promise<void>> = {
+      onoff: (value) => this.setPower(Boolean(value)),
+      thermostat_mode: (value) => this.setThermostatMode(value as ThermostatMode),
+      target_temperature: (value) => this.setTargetTemperature(Number(value)),
+      fan_speed: (value) => this.setFanSpeed(value as FanSpeed),
+      swing_mode: (value) => this.setSwingMode(value as SwingMode),
+      vane_vertical: (value) => this.setVerticalVane(value as VerticalVanePosition),
+      vane_horizontal: (value) => this.setHorizontalVane(value as HorizontalVanePosition),
+      eco_mode: (value) => this.setEcoMode(value as EcoMode),
+      nanoe: (value) => this.setNanoe(Boolean(value)),
+      eco_navi: (value) => this.setEcoNavi(Boolean(value)),
+      inside_cleaning: (value) => this.setInsideCleaning(Boolean(value)),
+    };
 
-    if (this.hasCapability('swing_mode')) {
-      this.registerCapabilityListener('swing_mode', async (value) => {
-        await this.setSwingMode(value as SwingMode);
-      });
+    for (const [capability, listener] of Object.entries(listeners)) {
+      if (this.hasCapability(capability) && !this.listenedCapabilities.has(capability)) {
+        this.registerCapabilityListener(capability, listener);
+        this.listenedCapabilities.add(capability);
+      }
     }
   }
 
@@ -150,90 +303,176 @@ export class PanasonicAcDevice extends Homey.Device {
       }
     }
 
-    if (this.hasCapability('target_temperature')) {
+    try {
+      this.appliedTemperatureRange = undefined;
+      await this.applyTemperatureRange(this.lastState?.thermostatMode);
+    } catch (error) {
+      this.error('[device.ts] ensureCapabilities -> setCapabilityOptions failed: %s', (error as Error).message);
+      throw error;
+    }
+
+    if (this.hasCapability('fan_speed')) {
+      // Only offer the speeds the unit reports.
       try {
-        await this.setCapabilityOptions('target_temperature', {
-          min: this.features.minTemperature ?? 16,
-          max: this.features.maxTemperature ?? 30,
-          step: 0.5,
+        await this.setCapabilityOptions('fan_speed', {
+          values: this.features.fanSpeeds.map((speed) => ({ id: speed, title: { en: FAN_SPEED_TITLES[speed] } })),
         });
       } catch (error) {
-        this.error('[device.ts] ensureCapabilities -> setCapabilityOptions failed: %s', (error as Error).message);
-        throw error;
+        this.error(
+          '[device.ts] ensureCapabilities -> setCapabilityOptions("fan_speed") failed: %s',
+          (error as Error).message,
+        );
       }
     }
   }
 
   private configurePolling(): void {
-    try {
-      const app = this.homey.app as PanasonicComfortCloudApp;
-      const intervals = app.getPollIntervals();
+    const app = this.homey.app as PanasonicComfortCloudApp;
+    const scheduler = app.getPollScheduler();
+    const intervals = app.getPollIntervals();
 
-      this.pollScheduler?.stop();
-      this.pollScheduler = new PollScheduler({
-        logger: (message, ...args) => this.log(message, ...args),
-        jitter: 2000,
-      });
+    this.unregisterPolling();
+    for (const scope of POLL_SCOPES) {
+      try {
+        scheduler.register({
+          id: this.getPollTaskId(scope),
+          group: scope,
+          interval: intervals[scope],
+          run: () => this.poll(scope),
+          immediate: false,
+        });
+      } catch (error) {
+        this.error('[device.ts] configurePolling -> register "%s" failed: %s', scope, (error as Error).message);
+        throw error;
+      }
+    }
 
-      const scheduler = this.pollScheduler;
-      const registerTask = (task: { id: string; interval: number; run: () => Promise<void>; immediate: boolean }) => {
-        try {
-          scheduler.register(task);
-        } catch (error) {
-          this.error('[device.ts] configurePolling -> register "%s" failed: %s', task.id, (error as Error).message);
-          throw error;
-        }
-      };
+    this.burstPolicy = createBurstPolicy({
+      taskIds: [this.getPollTaskId('essential')],
+      interval: BURST_INTERVAL,
+      duration: BURST_DURATION,
+    });
+    scheduler.setPolicy(this.getPollTaskId('burst'), this.burstPolicy);
+    scheduler.setPolicy(this.getPollTaskId('idle'), createIdlePolicy({
+      taskIds: [this.getPollTaskId('environment'), this.getPollTaskId('extended')],
+      factor: IDLE_FACTOR,
+      isIdle: () => this.lastState?.on === false,
+    }));
+  }
 
-      registerTask({
-        id: 'essential',
-        interval: intervals.essential,
-        run: () => this.pollOnce('essential'),
-        immediate: true,
-      });
+  private unregisterPolling(): void {
+    const scheduler = (this.homey.app as PanasonicComfortCloudApp).getPollScheduler();
+    for (const scope of POLL_SCOPES) {
+      scheduler.unregister(this.getPollTaskId(scope));
+    }
+    scheduler.removePolicy(this.getPollTaskId('burst'));
+    scheduler.removePolicy(this.getPollTaskId('idle'));
+    this.burstPolicy = undefined;
+  }
 
-      registerTask({
-        id: 'environment',
-        interval: intervals.environment,
-        run: () => this.pollOnce('environment'),
-        immediate: true,
-      });
+  private pausePolling(): void {
+    const scheduler = (this.homey.app as PanasonicComfortCloudApp).getPollScheduler();
+    this.pollingPaused = true;
+    for (const scope of POLL_SCOPES) {
+      try {
+        scheduler.pause(this.getPollTaskId(scope));
+      } catch (error) {
+        this.error('[device.ts] pausePolling -> pause "%s" failed: %s', scope, (error as Error).message);
+      }
+    }
+  }
 
-      registerTask({
-        id: 'extended',
-        interval: intervals.extended,
-        run: () => this.pollOnce('extended'),
-        immediate: true,
-      });
+  /**
+   * Resumes the paused poll tasks and reads the device right away.
+   */
+  private async resumePolling(): Promise<void> {
+    const scheduler = (this.homey.app as PanasonicComfortCloudApp).getPollScheduler();
+    this.pollingPaused = false;
+    for (const scope of POLL_SCOPES) {
+      try {
+        scheduler.resume(this.getPollTaskId(scope));
+      } catch (error) {
+        this.error('[device.ts] resumePolling -> resume "%s" failed: %s', scope, (error as Error).message);
+      }
+    }
+    await this.pollOnce('extended');
+  }
+
+  /**
+   * Id of this device's task or policy in the app-wide poll scheduler.
+   */
+  private getPollTaskId(name: string): string {
+    return `${this.getDeviceId()}:${name}`;
+  }
 
-      scheduler.start();
+  /**
+   * Current interval of the poll tier, including burst, idle and quiet-hours adjustments.
+   */
+  private getPollInterval(scope: PollScope): number {
+    const app = this.homey.app as PanasonicComfortCloudApp;
+    try {
+      return app.getPollScheduler().getInterval(this.getPollTaskId(scope));
     } catch (error) {
-      this.error('[device.ts] configurePolling failed: %s', (error as Error).message);
-      throw error;
+      // Not registered (anymore), e.g. while the device is being removed.
+      return app.getPollIntervals()[scope];
     }
   }
 
-  private async pollOnce(scope: 'essential' | 'environment' | 'extended'): Promise<void> {
-    if (this.polling) {
-      return;
+  private async pollOnce(scope: PollScope): Promise<void> {
+    await this.poll(scope).catch(() => undefined);
+  }
+
+  /**
+   * Polls the tier, or joins its poll that is already in progress. Polls of other tiers do not
+   * hold it up.
+   */
+  private poll(scope: PollScope): Promise<void> {
+    const running = this.polls.get(scope);
+    if (running) {
+      return running;
     }
-    this.polling = true;
+    const poll = this.readTier(scope).finally(() => {
+      this.polls.delete(scope);
+    });
+    this.polls.set(scope, poll);
+    return poll;
+  }
+
+  /**
+   * Reads the tier and applies the result. Rejects when the device could not be read, so the
+   * scheduler backs off; skipped requests (budget, queue timeout, open circuit) do not count.
+   */
+  private async readTier(scope: PollScope): Promise<void> {
     try {
-      const state = await this.client.readState(this.getDeviceId());
-      await this.applyState(state, scope);
+      const app = this.homey.app as PanasonicComfortCloudApp;
+      // A poll still queued when the next one of its tier is due is dropped instead of sent late.
+      const state = await app.getStatePoller().getState(this.getDeviceId(), {
+        priority: scope,
+        timeout: this.getPollInterval(scope),
+      });
+      await this.applyAvailability(this.availability.recordState(state));
+      const settled = this.pendingWrite !== undefined
+        && Date.now() - this.pendingWrite.sentAt >= app.getWriteSettleDelay();
+      const previous = this.lastState;
+      const next = await this.overlayPendingWrite(state, settled);
+      await this.applyState(next, scope);
+      if (previous && hasEssentialChange(previous, next)) {
+        // Changed from the remote, the unit itself or a schedule: follow it closely for a while.
+        this.startPollBurst();
+      }
+      this.replayQueuedCommand().catch((error: Error) => {
+        this.error('[device.ts] replayQueuedCommand failed: %s', error.message);
+      });
     } catch (error) {
-      this.error(
-        '[device.ts] pollOnce("%s") failed for "%s": %s',
-        scope,
-        this.getName(),
-        (error as Error).message,
-      );
-    } finally {
-      this.polling = false;
+      await this.handleRequestError(`poll("${scope}")`, error);
+      await this.expireQueuedCommand();
+      if (!(error instanceof RequestCancelledError) && !(error instanceof CircuitOpenError)) {
+        throw error;
+      }
     }
   }
 
-  private async applyState(state: DeviceState, scope: 'essential' | 'environment' | 'extended'): Promise<void> {
+  private async applyState(state: DeviceState, scope: PollScope): Promise<void> {
     const previous = this.lastState;
     this.lastState = state;
 
@@ -255,19 +494,34 @@ export class PanasonicAcDevice extends Homey.Device {
       }
     };
 
+    if (state.raw) {
+      await this.updateFeatures(mapDeviceFeatures(state.raw));
+    }
+    try {
+      // Before the setpoint is shown, so it is never outside the options.
+      await this.applyTemperatureRange(state.thermostatMode);
+    } catch (error) {
+      this.error('[device.ts] applyState -> setCapabilityOptions failed: %s', (error as Error).message);
+    }
     await updateCapability('onoff', state.on);
     await updateCapability('thermostat_mode', state.thermostatMode);
-    await updateCapability('target_temperature', state.targetTemperature);
+    if (hasSetpoint(this.features, state.thermostatMode)) {
+      await updateCapability('target_temperature', state.targetTemperature);
+    }
+    await updateCapability('eco_mode', state.ecoMode);
+    await updateCapability('nanoe', state.nanoe);
+    await updateCapability('eco_navi', state.ecoNavi);
+    await updateCapability('inside_cleaning', state.insideCleaning);
 
     if (scope === 'environment' || scope === 'extended') {
       await updateCapability('measure_temperature', state.indoorTemperature);
       await updateCapability('measure_humidity', state.indoorHumidity);
-      if (this.hasCapability('fan_speed')) {
-        await updateCapability('fan_speed', state.fanSpeed ?? 'auto');
-      }
+      await updateCapability('fan_speed', state.fanSpeed);
       if (this.hasCapability('swing_mode') && state.swingMode) {
         await updateCapability('swing_mode', state.swingMode);
       }
+      await updateCapability('vane_vertical', state.verticalVane);
+      await updateCapability('vane_horizontal', state.horizontalVane);
     }
 
     if (scope === 'extended') {
@@ -275,33 +529,59 @@ export class PanasonicAcDevice extends Homey.Device {
       await updateCapability('measure_power', state.powerConsumption);
       await updateCapability('meter_power', state.energyConsumption);
       await updateCapability('alarm_filter', state.filterAlarm ?? false);
-      await updateCapability('alarm_connection', state.connectionAlarm ?? false);
+      await updateCapability(
+        'alarm_connection',
+        state.connectionAlarm === true || this.availabilityStatus.reason === 'offline',
+      );
     }
 
-    if (state.minTemperature || state.maxTemperature) {
-      try {
-        await this.setCapabilityOptions('target_temperature', {
-          min: state.minTemperature ?? this.features.minTemperature ?? 16,
-          max: state.maxTemperature ?? this.features.maxTemperature ?? 30,
-          step: 0.5,
-        });
-      } catch (error) {
-        this.error('[device.ts] applyState -> setCapabilityOptions failed: %s', (error as Error).message);
-      }
-      if (state.minTemperature !== undefined) {
-        this.features.minTemperature = state.minTemperature;
-      }
-      if (state.maxTemperature !== undefined) {
-        this.features.maxTemperature = state.maxTemperature;
-      }
-      try {
-        await this.setStoreValue('features', this.features);
-      } catch (error) {
-        this.error('[device.ts] applyState -> setStoreValue("features") failed: %s', (error as Error).message);
-      }
+    this.triggerStateChanges(previous, state);
+  }
+
+  /**
+   * Takes over features found in a read or device listing, such as setpoint limits, fan speeds or
+   * functions the unit was paired without. When they change, they are stored, capabilities are
+   * added or their options updated, and the new capabilities get their listeners.
+   */
+  private async updateFeatures(detected: ComfortDeviceFeatures): Promise<void> {
+    const features = mergeDeviceFeatures(this.features, detected);
+    const changed = (Object.keys(features) as Array<keyof ComfortDeviceFeatures>)
+      .some((key) => JSON.stringify(features[key]) !== JSON.stringify(this.features[key]));
+    if (!changed) {
+      return;
     }
 
-    this.triggerStateChanges(previous, state);
+    this.features = features;
+    try {
+      await this.setStoreValue('features', features);
+    } catch (error) {
+      this.error('[device.ts] updateFeatures -> setStoreValue("features") failed: %s', (error as Error).message);
+    }
+    try {
+      await this.ensureCapabilities();
+      this.registerCapabilityListeners();
+    } catch (error) {
+      this.error('[device.ts] updateFeatures -> ensureCapabilities failed: %s', (error as Error).message);
+    }
+  }
+
+  /**
+   * Sets the `target_temperature` options to the mode's range, unless they already match. Modes
+   * without a setpoint keep the options of the previous mode.
+   */
+  private async applyTemperatureRange(mode: ThermostatMode | undefined): Promise<void> {
+    if (!this.hasCapability('target_temperature') || !hasSetpoint(this.features, mode)) {
+      return;
+    }
+    const range = getTemperatureRange(this.features, mode);
+    const min = range.min ?? 16;
+    const max = range.max ?? 30;
+    const key = `${min}:${max}`;
+    if (key === this.appliedTemperatureRange) {
+      return;
+    }
+    await this.setCapabilityOptions('target_temperature', { min, max, step: 0.5 });
+    this.appliedTemperatureRange = key;
   }
 
   private triggerStateChanges(previous: DeviceState | undefined, current: DeviceState): void {
@@ -327,8 +607,73 @@ export class PanasonicAcDevice extends Homey.Device {
     compare('meter_power', current.energyConsumption, previous.energyConsumption);
     compare('fan_speed', current.fanSpeed, previous.fanSpeed);
     compare('swing_mode', current.swingMode, previous.swingMode);
+    compare('vane_vertical', current.verticalVane, previous.verticalVane);
+    compare('vane_horizontal', current.horizontalVane, previous.horizontalVane);
+    compare('eco_mode', current.ecoMode, previous.ecoMode);
+    compare('nanoe', current.nanoe, previous.nanoe);
+    compare('eco_navi', current.ecoNavi, previous.ecoNavi);
+    compare('inside_cleaning', current.insideCleaning, previous.insideCleaning);
     compare('alarm_filter', current.filterAlarm, previous.filterAlarm);
     compare('alarm_connection', current.connectionAlarm, previous.connectionAlarm);
+
+    const numeric = (id: CapabilityTriggerId, token: string, newValue?: number, oldValue?: number) => {
+      if (newValue === undefined || oldValue === undefined || newValue === oldValue) {
+        return;
+      }
+      this.changeId += 1;
+      const change: ValueChange = { id: this.changeId, previous: oldValue, current: newValue };
+      this.triggerCapabilityChange(id, {
+        [token]: newValue,
+        change: Math.round((newValue - oldValue) * 100) / 100,
+      }, change);
+    };
+
+    numeric('indoor_temperature_changed', 'temperature', current.indoorTemperature, previous.indoorTemperature);
+    numeric('humidity_changed', 'humidity', current.indoorHumidity, previous.indoorHumidity);
+    numeric('outdoor_temperature_changed', 'temperature', current.outdoorTemperature, previous.outdoorTemperature);
+    numeric('power_changed', 'power', current.powerConsumption, previous.powerConsumption);
+
+    if (current.thermostatMode !== previous.thermostatMode) {
+      this.triggerCapabilityChange('mode_changed', { from: previous.thermostatMode, to: current.thermostatMode });
+    }
+    if (current.fanSpeed && previous.fanSpeed && current.fanSpeed !== previous.fanSpeed) {
+      this.triggerCapabilityChange('fan_speed_changed', { from: previous.fanSpeed, to: current.fanSpeed });
+    }
+    if (current.ecoMode && previous.ecoMode && current.ecoMode !== previous.ecoMode) {
+      this.triggerCapabilityChange('eco_mode_changed', { from: previous.ecoMode, to: current.ecoMode });
+    }
+
+    const toggle = (id: CapabilityTriggerId, newValue?: boolean, oldValue?: boolean) => {
+      if (newValue !== undefined && oldValue !== undefined && newValue !== oldValue) {
+        this.triggerCapabilityChange(id, { enabled: newValue });
+      }
+    };
+
+    toggle('nanoe_changed', current.nanoe, previous.nanoe);
+    toggle('eco_navi_changed', current.ecoNavi, previous.ecoNavi);
+    toggle('inside_cleaning_changed', current.insideCleaning, previous.insideCleaning);
+    if (current.filterAlarm !== undefined && previous.filterAlarm !== undefined
+      && current.filterAlarm !== previous.filterAlarm) {
+      this.triggerCapabilityChange(current.filterAlarm ? 'filter_alarm_on' : 'filter_alarm_off');
+    }
+  }
+
+  /**
+   * Run listener check of the numeric change triggers: whether the reading moved by at least the
+   * flow's minimum change.
+   */
+  passesChangeThreshold(id: CapabilityTriggerId, threshold: number, change: ValueChange): boolean {
+    return this.changeThresholds.passes(id, threshold, change);
+  }
+
+  private triggerCapabilityChange(
+    id: CapabilityTriggerId,
+    tokens?: Record<string, string | number | boolean>,
+    state?: ValueChange,
+  ): void {
+    (this.driver as PanasonicAcDriver).triggerCapabilityChange(this, id, tokens, state).catch((error: Error) => {
+      this.error('[device.ts] triggerCapabilityChange("%s") failed: %s', id, error.message);
+    });
   }
 
   async setPower(state: boolean): Promise<void> {
@@ -340,15 +685,114 @@ export class PanasonicAcDevice extends Homey.Device {
   }
 
   async setTargetTemperature(temperature: number): Promise<void> {
-    await this.sendPatch({ targetTemperature: temperature });
+    await this.setClimateState({ targetTemperature: temperature });
   }
 
   async setFanSpeed(speed: FanSpeed): Promise<void> {
-    await this.sendPatch({ fanSpeed: speed });
+    await this.setClimateState({ fanSpeed: speed });
   }
 
   async setSwingMode(mode: SwingMode): Promise<void> {
-    await this.sendPatch({ swingMode: mode });
+    await this.sendPatch(expandSwingPatch({ swingMode: mode }, this.lastState));
+  }
+
+  async setVerticalVane(position: VerticalVanePosition): Promise<void> {
+    await this.setClimateState({ verticalVane: position });
+  }
+
+  async setHorizontalVane(position: HorizontalVanePosition): Promise<void> {
+    await this.setClimateState({ horizontalVane: position });
+  }
+
+  /**
+   * Switches between normal, powerful and quiet operation; fails on units without these sub-modes.
+   */
+  async setEcoMode(mode: EcoMode): Promise<void> {
+    await this.setClimateState({ ecoMode: mode });
+  }
+
+  async setNanoe(enabled: boolean): Promise<void> {
+    await this.setClimateState({ nanoe: enabled });
+  }
+
+  async setEcoNavi(enabled: boolean): Promise<void> {
+    await this.setClimateState({ ecoNavi: enabled });
+  }
+
+  async setInsideCleaning(enabled: boolean): Promise<void> {
+    await this.setClimateState({ insideCleaning: enabled });
+  }
+
+  getPresets(): ClimatePreset[] {
+    const presets = this.getStoreValue(PRESETS_KEY) as ClimatePreset[] | null;
+    return Array.isArray(presets) ? presets : [];
+  }
+
+  /**
+   * Stores the current power, mode, temperature, fan speed, swing mode and vane positions under
+   * the name, replacing a preset with the same name. Modes without a setpoint store no temperature.
+   */
+  async savePreset(name: string): Promise<ClimatePreset> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Enter a name for the preset.');
+    }
+    if (!this.lastState) {
+      throw new Error('The current state of the unit is not known yet. Try again after it has been read.');
+    }
+
+    const settings: PresetSettings = {};
+    const withSetpoint = hasSetpoint(this.features, this.lastState.thermostatMode);
+    for (const key of PRESET_FIELDS) {
+      if (this.lastState[key] !== undefined && (key !== 'targetTemperature' || withSetpoint)) {
+        Object.assign(settings, { [key]: this.lastState[key] });
+      }
+    }
+    const preset: ClimatePreset = { name: trimmed, settings, savedAt: Date.now() };
+    const others = this.getPresets().filter((existing) => !isSamePresetName(existing.name, trimmed));
+    if (others.length >= MAX_PRESETS) {
+      throw new Error(`A device can store at most ${MAX_PRESETS} presets. Delete one first.`);
+    }
+    await this.setStoreValue(PRESETS_KEY, [...others, preset]);
+    return preset;
+  }
+
+  /**
+   * Sends the preset's settings to the unit as one command.
+   */
+  async recallPreset(name: string): Promise<void> {
+    const preset = this.getPresets().find((existing) => isSamePresetName(existing.name, name));
+    if (!preset) {
+      throw new Error(`Preset "${name}" does not exist.`);
+    }
+    await this.setClimateState({ ...preset.settings });
+  }
+
+  async deletePreset(name: string): Promise<boolean> {
+    const presets = this.getPresets();
+    const remaining = presets.filter((existing) => !isSamePresetName(existing.name, name));
+    if (remaining.length === presets.length) {
+      return false;
+    }
+    await this.setStoreValue(PRESETS_KEY, remaining);
+    return true;
+  }
+
+  /**
+   * Applies several settings with a single control request, so the unit never runs an
+   * intermediate combination (e.g. heating at the previous cooling setpoint).
+   */
+  async setClimateState(patch: Partial<DeviceState>): Promise<void> {
+    if (Object.keys(patch).length === 0) {
+      throw new Error('Choose at least one setting to change.');
+    }
+    // A mode change that is still waiting to be sent decides the range the setpoint must fit.
+    const mode = this.writeCoalescer.getPendingPatch().thermostatMode ?? this.lastState?.thermostatMode;
+    const problems = findUnsupportedSettings(patch, this.features, mode);
+    if (problems.length > 0) {
+      throw new Error(problems.join(' '));
+    }
+    await this.sendPatch(expandSwingPatch(patch, this.lastState));
   }
 
   isOn(): boolean {
@@ -369,16 +813,96 @@ export class PanasonicAcDevice extends Homey.Device {
     return !Number.isNaN(value) && value > threshold;
   }
 
+  /*
+   * The conditions below read the last known state instead of capability values, so they also
+   * work for values whose capability the capability plan left out. Missing readings never match.
+   */
+
+  isHumidityAbove(threshold: number): boolean {
+    return compareReading(this.lastState?.indoorHumidity, (value) => value > threshold);
+  }
+
+  isHumidityBelow(threshold: number): boolean {
+    return compareReading(this.lastState?.indoorHumidity, (value) => value < threshold);
+  }
+
+  isOutdoorTemperatureAbove(threshold: number): boolean {
+    return compareReading(this.lastState?.outdoorTemperature, (value) => value > threshold);
+  }
+
+  isOutdoorTemperatureBelow(threshold: number): boolean {
+    return compareReading(this.lastState?.outdoorTemperature, (value) => value < threshold);
+  }
+
+  isPowerAbove(threshold: number): boolean {
+    return compareReading(this.lastState?.powerConsumption, (value) => value > threshold);
+  }
+
+  isIndoorTemperatureBetween(min: number, max: number): boolean {
+    const [low, high] = min <= max ? [min, max] : [max, min];
+    return compareReading(this.lastState?.indoorTemperature, (value) => value >= low && value <= high);
+  }
+
+  isFanSpeed(speed: FanSpeed): boolean {
+    return this.lastState?.fanSpeed === speed;
+  }
+
+  isSwingMode(mode: SwingMode): boolean {
+    return this.lastState?.swingMode === mode;
+  }
+
+  isEcoMode(mode: EcoMode): boolean {
+    return this.lastState?.ecoMode === mode;
+  }
+
+  isFilterAlarmActive(): boolean {
+    return this.lastState?.filterAlarm === true;
+  }
+
+  isConnectionAlarmActive(): boolean {
+    return this.lastState?.connectionAlarm === true || this.availabilityStatus.reason === 'offline';
+  }
+
   private async sendPatch(patch: Partial<DeviceState>): Promise<void> {
+    await this.writeCoalescer.submit(patch);
+  }
+
+  /**
+   * Sends a (merged) patch to the unit and shows the written values right away. The actual state
+   * is read back once Comfort Cloud had time to settle.
+   */
+  private async writePatch(patch: Partial<DeviceState>): Promise<DeviceState> {
+    const app = this.homey.app as PanasonicComfortCloudApp;
     try {
-      const updated = await this.client.writeState(this.getDeviceId(), patch);
-      await this.applyState(updated, 'extended');
+      if (!this.lastState) {
+        const updated = await app.getClient().writeState(this.getDeviceId(), patch);
+        await this.dropQueuedFields(patch);
+        app.getStatePoller().updateState(this.getDeviceId(), updated);
+        await this.applyAvailability(this.availability.recordReachable());
+        await this.applyState(updated, 'extended');
+        this.startPollBurst();
+        return updated;
+      }
+
+      await app.getClient().control(this.getDeviceId(), patch);
+      await this.dropQueuedFields(patch);
+      this.pendingWrite = {
+        patch: { ...this.pendingWrite?.patch, ...patch },
+        sentAt: Date.now(),
+        reads: 0,
+      };
+      this.scheduleReconcile();
+
+      const optimistic: DeviceState = { ...this.lastState, ...patch, timestamp: Date.now() };
+      await this.applyAvailability(this.availability.recordReachable());
+      await this.applyState(optimistic, 'extended');
+      this.startPollBurst();
+      return optimistic;
     } catch (error) {
-      this.error(
-        '[device.ts] sendPatch -> writeState failed for "%s": %s',
-        this.getName(),
-        (error as Error).message,
-      );
+      await this.handleRequestError('writePatch -> control', error);
+      if (await this.queueCommand(patch, error)) {
+        return { ...this.lastState, ...patch, timestamp: Date.now() } as DeviceState;
+      }
       if (this.lastState) {
         await this.applyState(this.lastState, 'extended');
       }
@@ -386,6 +910,300 @@ export class PanasonicAcDevice extends Homey.Device {
     }
   }
 
+  /**
+   * Stores the patch for a later replay when the write failed because Comfort Cloud could not be
+   * reached. Returns `false` when the failure is not queueable or queueing is disabled.
+   */
+  private async queueCommand(patch: Partial<DeviceState>, error: unknown): Promise<boolean> {
+    const unreachable = error instanceof NetworkTimeoutError || error instanceof ServerUnavailableError;
+    if (!unreachable || this.getSetting('offlineQueue') === false) {
+      return false;
+    }
+
+    const existing = this.getQueuedCommand();
+    const now = Date.now();
+    const expiryMinutes = Number(this.getSetting('offlineQueueExpiry')) || 60;
+    // A merged command expires relative to its latest change, not to the first queued one.
+    const command: QueuedCommand = {
+      patch: { ...existing?.patch, ...patch },
+      queuedAt: existing?.queuedAt ?? now,
+      expiresAt: now + expiryMinutes * 60 * 1000,
+    };
+
+    try {
+      await this.setStoreValue(QUEUED_COMMAND_KEY, command);
+    } catch (storeError) {
+      this.error('[device.ts] queueCommand -> setStoreValue failed: %s', (storeError as Error).message);
+      return false;
+    }
+
+    if (!this.replaying) {
+      this.log('[device.ts] Comfort Cloud unreachable, queued %j for "%s"', command.patch, this.getName());
+      this.triggerOfflineCommand('queued', command.patch);
+    }
+    return true;
+  }
+
+  /**
+   * Sends the queued command once the unit can be read again. A replay that fails because the
+   * cloud is still unreachable stays queued; any other failure drops the command.
+   */
+  private async replayQueuedCommand(): Promise<void> {
+    if (this.replaying || await this.expireQueuedCommand()) {
+      return;
+    }
+    const command = this.getQueuedCommand();
+    if (!command) {
+      return;
+    }
+
+    this.replaying = true;
+    try {
+      await this.writeCoalescer.submit(command.patch);
+      if (!this.getQueuedCommand()) {
+        this.log('[device.ts] Replayed queued command %j for "%s"', command.patch, this.getName());
+        this.triggerOfflineCommand('replayed', command.patch);
+      }
+    } catch (error) {
+      await this.clearQueuedCommand();
+      this.triggerOfflineCommand('failed', command.patch);
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Drops the queued command when it expired. Returns `true` if it did.
+   */
+  private async expireQueuedCommand(): Promise<boolean> {
+    const command = this.getQueuedCommand();
+    if (!command || Date.now() < command.expiresAt) {
+      return false;
+    }
+    this.log('[device.ts] Queued command %j for "%s" expired', command.patch, this.getName());
+    await this.clearQueuedCommand();
+    this.triggerOfflineCommand('expired', command.patch);
+    return true;
+  }
+
+  /**
+   * Removes values from the queued command that a newer successful write has overridden.
+   */
+  private async dropQueuedFields(patch: Partial<DeviceState>): Promise<void> {
+    const command = this.getQueuedCommand();
+    if (!command) {
+      return;
+    }
+
+    const remaining = { ...command.patch };
+    for (const key of Object.keys(patch) as Array<keyof DeviceState>) {
+      delete remaining[key];
+    }
+    if (Object.keys(remaining).length === 0) {
+      await this.clearQueuedCommand();
+      return;
+    }
+    try {
+      await this.setStoreValue(QUEUED_COMMAND_KEY, { ...command, patch: remaining });
+    } catch (error) {
+      this.error('[device.ts] dropQueuedFields -> setStoreValue failed: %s', (error as Error).message);
+    }
+  }
+
+  private getQueuedCommand(): QueuedCommand | undefined {
+    const value = this.getStoreValue(QUEUED_COMMAND_KEY) as QueuedCommand | null | undefined;
+    return value?.patch && typeof value.expiresAt === 'number' ? value : undefined;
+  }
+
+  private async clearQueuedCommand(): Promise<void> {
+    try {
+      await this.unsetStoreValue(QUEUED_COMMAND_KEY);
+    } catch (error) {
+      this.error('[device.ts] clearQueuedCommand -> unsetStoreValue failed: %s', (error as Error).message);
+    }
+  }
+
+  private triggerOfflineCommand(status: OfflineCommandStatus, patch: Partial<DeviceState>): void {
+    const command = Object.entries(patch)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+    (this.driver as PanasonicAcDriver).triggerOfflineCommand(this, status, command).catch((error: Error) => {
+      this.error('[device.ts] triggerOfflineCommand("%s") failed: %s', status, error.message);
+    });
+  }
+
+  private startPollBurst(): void {
+    if (!this.burstPolicy) {
+      return;
+    }
+    this.burstPolicy.trigger();
+    (this.homey.app as PanasonicComfortCloudApp).getPollScheduler().refresh();
+  }
+
+  private scheduleReconcile(): void {
+    if (this.reconcileTimer) {
+      this.homey.clearTimeout(this.reconcileTimer);
+    }
+    const app = this.homey.app as PanasonicComfortCloudApp;
+    this.reconcileTimer = this.homey.setTimeout(() => {
+      this.reconcileTimer = undefined;
+      this.reconcile().catch((error: Error) => {
+        this.error('[device.ts] reconcile failed: %s', error.message);
+      });
+    }, app.getWriteSettleDelay());
+  }
+
+  /**
+   * Reads the state after a write has settled and keeps reading until Comfort Cloud reports the
+   * written values or {@link MAX_RECONCILE_READS} reads disagreed.
+   */
+  private async reconcile(): Promise<void> {
+    if (!this.pendingWrite) {
+      return;
+    }
+
+    const app = this.homey.app as PanasonicComfortCloudApp;
+    try {
+      const state = await app.getClient().readState(this.getDeviceId(), { priority: 'essential' });
+      app.getStatePoller().updateState(this.getDeviceId(), state);
+      await this.applyAvailability(this.availability.recordState(state));
+      await this.applyState(await this.overlayPendingWrite(state, true), 'extended');
+    } catch (error) {
+      await this.handleRequestError('reconcile -> readState', error);
+    }
+
+    if (this.pendingWrite) {
+      this.scheduleReconcile();
+    }
+  }
+
+  /**
+   * Lays the values of the pending write over a state read from Comfort Cloud. Values the cloud
+   * reports back are confirmed; when `counted` is set, a read that still disagrees counts towards
+   * giving up on the write.
+   */
+  private async overlayPendingWrite(state: DeviceState, counted: boolean): Promise<DeviceState> {
+    const pending = this.pendingWrite;
+    if (!pending) {
+      return state;
+    }
+
+    const unconfirmed: Partial<DeviceState> = {};
+    for (const key of Object.keys(pending.patch) as Array<keyof DeviceState>) {
+      if (state[key] !== pending.patch[key]) {
+        Object.assign(unconfirmed, { [key]: pending.patch[key] });
+      }
+    }
+
+    if (Object.keys(unconfirmed).length === 0) {
+      this.clearPendingWrite();
+      await this.setWarningSafe(null);
+      return state;
+    }
+
+    pending.patch = unconfirmed;
+    if (counted) {
+      pending.reads += 1;
+      if (pending.reads >= MAX_RECONCILE_READS) {
+        this.error(
+          '[device.ts] Comfort Cloud did not apply %j to "%s" after %d reads',
+          unconfirmed,
+          this.getName(),
+          pending.reads,
+        );
+        this.clearPendingWrite();
+        await this.setWarningSafe('The last change was not applied by the unit.');
+        return state;
+      }
+    }
+
+    return { ...state, ...unconfirmed };
+  }
+
+  private clearPendingWrite(): void {
+    this.pendingWrite = undefined;
+    if (this.reconcileTimer) {
+      this.homey.clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+    }
+  }
+
+  private async setWarningSafe(message: string | null): Promise<void> {
+    try {
+      if (message) {
+        await this.setWarning(message);
+      } else {
+        await this.unsetWarning();
+      }
+    } catch (error) {
+      this.error('[device.ts] setWarningSafe failed: %s', (error as Error).message);
+    }
+  }
+
+  /**
+   * Reacts to a failed Comfort Cloud request. Throttling and skipped requests are only logged
+   * quietly; the availability monitor decides whether the device is marked unavailable.
+   */
+  private async handleRequestError(context: string, error: unknown): Promise<void> {
+    if (error instanceof RequestCancelledError) {
+      this.log('[device.ts] %s dropped for "%s": %s', context, this.getName(), error.message);
+    } else if (error instanceof RateLimitedError) {
+      this.log('[device.ts] %s throttled for "%s", retrying later', context, this.getName());
+    } else if (!(error instanceof CircuitOpenError)) {
+      // An outage (open circuit) is logged once by the app; devices only reflect it in their availability.
+      this.error('[device.ts] %s failed for "%s": %s', context, this.getName(), (error as Error).message);
+    }
+
+    if (error instanceof ReauthenticationRequiredError || error instanceof CredentialsMissingError) {
+      // Polling cannot succeed before the account is signed in again; new tokens or the repair
+      // resume it. A rejected request the session may still recover from is left to the backoff.
+      this.pausePolling();
+    }
+    await this.applyAvailability(this.availability.recordFailure(error));
+  }
+
+  /**
+   * Applies an availability decision to the Homey device, keeps `alarm_connection` in line with it
+   * and triggers the offline/online flows when the availability flips.
+   */
+  private async applyAvailability(status: AvailabilityStatus): Promise<void> {
+    const previous = this.availabilityStatus;
+    if (previous.available === status.available && previous.message === status.message) {
+      return;
+    }
+    this.availabilityStatus = status;
+
+    try {
+      if (status.available) {
+        await this.setAvailable();
+      } else {
+        await this.setUnavailable(status.message);
+      }
+    } catch (error) {
+      this.error('[device.ts] applyAvailability -> set availability failed: %s', (error as Error).message);
+    }
+
+    if (this.hasCapability('alarm_connection')) {
+      const alarm = status.reason === 'offline' || (status.available && this.lastState?.connectionAlarm === true);
+      await this.setCapabilityValue('alarm_connection', alarm).catch((error: Error) => {
+        this.error('[device.ts] applyAvailability -> setCapabilityValue("alarm_connection") failed: %s', error.message);
+      });
+    }
+
+    if (previous.available === status.available) {
+      return;
+    }
+    if (status.available) {
+      this.log('[device.ts] "%s" is available again', this.getName());
+    } else {
+      this.log('[device.ts] "%s" unavailable (%s): %s', this.getName(), status.reason, status.message);
+    }
+    const driver = this.driver as PanasonicAcDriver;
+    driver.triggerAvailabilityChanged(this, status).catch((error: Error) => {
+      this.error('[device.ts] triggerAvailabilityChanged failed: %s', error.message);
+    });
+  }
+
   private getDeviceId(): string {
     const data = this.getData() as { id: string };
     return data.id;
@@ -3,18 +3,89 @@ import { readdir } from 'node:fs/promises';
 import path from 'node:path';
 import ComfortCloudClient from '../../lib/panasonic/ComfortCloudClient';
 import { buildCapabilityPlan } from '../../lib/panasonic/Mappers';
-import { ProviderLoginRequest, AuthTokens, ComfortDevice } from '../../types';
+import type { ValueChange } from '../../lib/homey/ChangeThresholds';
+import type { AvailabilityStatus } from '../../polling/AvailabilityMonitor';
+import {
+  ProviderLoginRequest,
+  AuthTokens,
+  CapabilityTriggerId,
+  ComfortDevice,
+  DeviceState,
+  FanSpeed,
+  OfflineCommandStatus,
+  PresetSettings,
+  SwingMode,
+  ThermostatMode,
+} from '../../types';
 import type PanasonicComfortCloudApp from '../../app';
 import type { PanasonicAcDevice } from './device';
 
+const NUMERIC_CAPABILITY_TRIGGERS: CapabilityTriggerId[] = [
+  'indoor_temperature_changed',
+  'humidity_changed',
+  'outdoor_temperature_changed',
+  'power_changed',
+];
+
+const CAPABILITY_TRIGGERS: CapabilityTriggerId[] = [
+  ...NUMERIC_CAPABILITY_TRIGGERS,
+  'mode_changed',
+  'fan_speed_changed',
+  'eco_mode_changed',
+  'nanoe_changed',
+  'eco_navi_changed',
+  'inside_cleaning_changed',
+  'filter_alarm_on',
+  'filter_alarm_off',
+];
+
+/**
+ * Builds the patch of the "set climate state" action; "keep" and empty arguments are left out.
+ */
+const climateArgsToPatch = (args: Record<string, unknown>): Partial<DeviceState> => {
+  const patch: Partial<DeviceState> = {};
+  if (args.power === 'on' || args.power === 'off') {
+    patch.on = args.power === 'on';
+  }
+  if (typeof args.mode === 'string' && args.mode !== 'keep') {
+    patch.thermostatMode = args.mode as ThermostatMode;
+  }
+  if (typeof args.temperature === 'number' && !Number.isNaN(args.temperature)) {
+    patch.targetTemperature = args.temperature;
+  }
+  if (typeof args.speed === 'string' && args.speed !== 'keep') {
+    patch.fanSpeed = args.speed as FanSpeed;
+  }
+  if (typeof args.swing === 'string' && args.swing !== 'keep') {
+    patch.swingMode = args.swing as SwingMode;
+  }
+  return patch;
+};
+
+const describePreset = (settings: PresetSettings): string => {
+  if (settings.on === false) {
+    return 'Off';
+  }
+  return [
+    settings.thermostatMode,
+    settings.targetTemperature !== undefined ? `${settings.targetTemperature} °C` : undefined,
+    settings.fanSpeed ? `fan ${settings.fanSpeed}` : undefined,
+    settings.swingMode ? `swing ${settings.swingMode}` : undefined,
+  ].filter(Boolean).join(', ');
+};
+
 interface PairSessionState {
-  client: ComfortCloudClient;
+  client?: ComfortCloudClient;
   tokens?: AuthTokens;
   devices?: ComfortDevice[];
 }
 
 export default class PanasonicAcDriver extends Homey.Driver {
   private stateChangedTrigger?: Homey.FlowCardTriggerDevice;
+  private offlineCommandTrigger?: Homey.FlowCardTriggerDevice;
+  private deviceOfflineTrigger?: Homey.FlowCardTriggerDevice;
+  private deviceOnlineTrigger?: Homey.FlowCardTriggerDevice;
+  private readonly capabilityTriggers = new Map<CapabilityTriggerId, Homey.FlowCardTriggerDevice>();
 
   async onInit(): Promise<void> {
     this.registerFlows();
@@ -24,10 +95,19 @@ export default class PanasonicAcDriver extends Homey.Driver {
 
   async rescanDevices(): Promise<void> {
     const devices = this.getDevices() as PanasonicAcDevice[];
+    // The listing reports functions the units gained since they were paired.
+    let listed: ComfortDevice[] = [];
+    try {
+      listed = await (this.homey.app as PanasonicComfortCloudApp).getClient().listDevices();
+    } catch (error) {
+      this.error('[driver.ts] rescanDevices -> listDevices failed: %s', (error as Error).message);
+    }
+
     await Promise.all(
       devices.map(async (device) => {
+        const { id } = device.getData() as { id: string };
         try {
-          await device.handleDriverRescan();
+          await device.handleDriverRescan(listed.find((entry) => entry.id === id)?.features);
         } catch (error) {
           this.error(
             '[driver.ts] rescanDevices -> device "%s" failed: %s',
@@ -65,6 +145,65 @@ export default class PanasonicAcDriver extends Homey.Driver {
       return (device as PanasonicAcDevice).setSwingMode(mode);
     });
 
+    const actionEcoMode = this.homey.flow.getActionCard('set_eco_mode');
+    actionEcoMode.registerRunListener(async ({ device, mode }) => {
+      return (device as PanasonicAcDevice).setEcoMode(mode);
+    });
+
+    const actionNanoe = this.homey.flow.getActionCard('set_nanoe');
+    actionNanoe.registerRunListener(async ({ device, state }) => {
+      return (device as PanasonicAcDevice).setNanoe(state === 'on');
+    });
+
+    const actionEcoNavi = this.homey.flow.getActionCard('set_eco_navi');
+    actionEcoNavi.registerRunListener(async ({ device, state }) => {
+      return (device as PanasonicAcDevice).setEcoNavi(state === 'on');
+    });
+
+    const actionInsideCleaning = this.homey.flow.getActionCard('set_inside_cleaning');
+    actionInsideCleaning.registerRunListener(async ({ device, state }) => {
+      return (device as PanasonicAcDevice).setInsideCleaning(state === 'on');
+    });
+
+    const actionVerticalVane = this.homey.flow.getActionCard('set_vertical_vane');
+    actionVerticalVane.registerRunListener(async ({ device, position }) => {
+      return (device as PanasonicAcDevice).setVerticalVane(position);
+    });
+
+    const actionHorizontalVane = this.homey.flow.getActionCard('set_horizontal_vane');
+    actionHorizontalVane.registerRunListener(async ({ device, position }) => {
+      return (device as PanasonicAcDevice).setHorizontalVane(position);
+    });
+
+    const actionClimate = this.homey.flow.getActionCard('set_climate_state');
+    actionClimate.registerRunListener(async (args) => {
+      return (args.device as PanasonicAcDevice).setClimateState(climateArgsToPatch(args));
+    });
+
+    const actionSavePreset = this.homey.flow.getActionCard('save_preset');
+    actionSavePreset.registerRunListener(async ({ device, name }) => {
+      await (device as PanasonicAcDevice).savePreset(String(name ?? ''));
+    });
+
+    const actionRecallPreset = this.homey.flow.getActionCard('recall_preset');
+    actionRecallPreset.registerRunListener(async ({ device, preset }) => {
+      return (device as PanasonicAcDevice).recallPreset(preset.name);
+    });
+    actionRecallPreset.registerArgumentAutocompleteListener('preset', this.autocompletePresets);
+
+    const actionDeletePreset = this.homey.flow.getActionCard('delete_preset');
+    actionDeletePreset.registerRunListener(async ({ device, preset }) => {
+      if (!(await (device as PanasonicAcDevice).deletePreset(preset.name))) {
+        throw new Error(`Preset "${preset.name}" does not exist.`);
+      }
+    });
+    actionDeletePreset.registerArgumentAutocompleteListener('preset', this.autocompletePresets);
+
+    const actionRefresh = this.homey.flow.getActionCard('refresh_state');
+    actionRefresh.registerRunListener(async ({ device }) => {
+      return (device as PanasonicAcDevice).refreshNow();
+    });
+
     const conditionIsOn = this.homey.flow.getConditionCard('is_on');
     conditionIsOn.registerRunListener(async ({ device }) => {
       return (device as PanasonicAcDevice).isOn();
@@ -85,7 +224,76 @@ export default class PanasonicAcDriver extends Homey.Driver {
       return (device as PanasonicAcDevice).isEnergyAbove(energy);
     });
 
+    const conditionHumidityAbove = this.homey.flow.getConditionCard('humidity_above');
+    conditionHumidityAbove.registerRunListener(async ({ device, humidity }) => {
+      return (device as PanasonicAcDevice).isHumidityAbove(humidity);
+    });
+
+    const conditionHumidityBelow = this.homey.flow.getConditionCard('humidity_below');
+    conditionHumidityBelow.registerRunListener(async ({ device, humidity }) => {
+      return (device as PanasonicAcDevice).isHumidityBelow(humidity);
+    });
+
+    const conditionOutdoorAbove = this.homey.flow.getConditionCard('outdoor_temperature_above');
+    conditionOutdoorAbove.registerRunListener(async ({ device, temperature }) => {
+      return (device as PanasonicAcDevice).isOutdoorTemperatureAbove(temperature);
+    });
+
+    const conditionOutdoorBelow = this.homey.flow.getConditionCard('outdoor_temperature_below');
+    conditionOutdoorBelow.registerRunListener(async ({ device, temperature }) => {
+      return (device as PanasonicAcDevice).isOutdoorTemperatureBelow(temperature);
+    });
+
+    const conditionPowerAbove = this.homey.flow.getConditionCard('power_above');
+    conditionPowerAbove.registerRunListener(async ({ device, power }) => {
+      return (device as PanasonicAcDevice).isPowerAbove(power);
+    });
+
+    const conditionTempBetween = this.homey.flow.getConditionCard('temperature_between');
+    conditionTempBetween.registerRunListener(async ({ device, min, max }) => {
+      return (device as PanasonicAcDevice).isIndoorTemperatureBetween(min, max);
+    });
+
+    const conditionFanSpeedIs = this.homey.flow.getConditionCard('fan_speed_is');
+    conditionFanSpeedIs.registerRunListener(async ({ device, speed }) => {
+      return (device as PanasonicAcDevice).isFanSpeed(speed);
+    });
+
+    const conditionSwingModeIs = this.homey.flow.getConditionCard('swing_mode_is');
+    conditionSwingModeIs.registerRunListener(async ({ device, mode }) => {
+      return (device as PanasonicAcDevice).isSwingMode(mode);
+    });
+
+    const conditionEcoModeIs = this.homey.flow.getConditionCard('eco_mode_is');
+    conditionEcoModeIs.registerRunListener(async ({ device, mode }) => {
+      return (device as PanasonicAcDevice).isEcoMode(mode);
+    });
+
+    const conditionFilterAlarm = this.homey.flow.getConditionCard('filter_alarm_active');
+    conditionFilterAlarm.registerRunListener(async ({ device }) => {
+      return (device as PanasonicAcDevice).isFilterAlarmActive();
+    });
+
+    const conditionConnectionAlarm = this.homey.flow.getConditionCard('connection_alarm_active');
+    conditionConnectionAlarm.registerRunListener(async ({ device }) => {
+      return (device as PanasonicAcDevice).isConnectionAlarmActive();
+    });
+
     this.stateChangedTrigger = this.homey.flow.getDeviceTriggerCard('state_changed');
+    this.offlineCommandTrigger = this.homey.flow.getDeviceTriggerCard('offline_command');
+    this.deviceOfflineTrigger = this.homey.flow.getDeviceTriggerCard('device_offline');
+    this.deviceOnlineTrigger = this.homey.flow.getDeviceTriggerCard('device_online');
+
+    for (const id of CAPABILITY_TRIGGERS) {
+      const card = this.homey.flow.getDeviceTriggerCard(id);
+      if (NUMERIC_CAPABILITY_TRIGGERS.includes(id)) {
+        card.registerRunListener(async ({ device, delta }, state: ValueChange) => {
+          // The minimum change is optional; without one the card fires on every change.
+          return (device as PanasonicAcDevice).passesChangeThreshold(id, Number(delta ?? 0), state);
+        });
+      }
+      this.capabilityTriggers.set(id, card);
+    }
   }
 
   triggerStateChange(device: PanasonicAcDevice, property: string, value: unknown): Promise<void> {
@@ -95,11 +303,55 @@ export default class PanasonicAcDriver extends Homey.Driver {
     return this.stateChangedTrigger.trigger(device, { property, value: String(value ?? '') });
   }
 
+  triggerOfflineCommand(device: PanasonicAcDevice, status: OfflineCommandStatus, command: string): Promise<void> {
+    if (!this.offlineCommandTrigger) {
+      return Promise.resolve();
+    }
+    return this.offlineCommandTrigger.trigger(device, { status, command });
+  }
+
+  private readonly autocompletePresets = async (
+    query: string,
+    { device }: { device: PanasonicAcDevice },
+  ): Promise<Array<{ name: string; description: string }>> => {
+    const search = query.trim().toLowerCase();
+    return device.getPresets()
+      .filter((preset) => preset.name.toLowerCase().includes(search))
+      .map((preset) => ({ name: preset.name, description: describePreset(preset.settings) }));
+  };
+
+  /**
+   * Fires a capability-specific trigger. Numeric triggers pass the reading as card state, so each
+   * flow can apply its own minimum change.
+   */
+  triggerCapabilityChange(
+    device: PanasonicAcDevice,
+    id: CapabilityTriggerId,
+    tokens: Record<string, string | number | boolean> = {},
+    state?: ValueChange,
+  ): Promise<void> {
+    const card = this.capabilityTriggers.get(id);
+    if (!card) {
+      return Promise.resolve();
+    }
+    return card.trigger(device, tokens, state ?? {});
+  }
+
+  triggerAvailabilityChanged(device: PanasonicAcDevice, status: AvailabilityStatus): Promise<void> {
+    const trigger = status.available ? this.deviceOnlineTrigger : this.deviceOfflineTrigger;
+    if (!trigger) {
+      return Promise.resolve();
+    }
+    if (status.available) {
+      return trigger.trigger(device);
+    }
+    return trigger.trigger(device, { reason: status.reason ?? 'cloud', message: status.message ?? '' });
+  }
+
   async onPair(session: Homey.Driver.PairSession): Promise<void> {
     this.log('[driver.ts] Pair session started');
     const app = this.homey.app as PanasonicComfortCloudApp;
-    const client = app.createClient();
-    const state: PairSessionState = { client };
+    const state: PairSessionState = {};
 
     const sessionAny = session as any;
     sessionAny?.on?.('disconnect', () => {
@@ -115,9 +367,12 @@ export default class PanasonicAcDriver extends Homey.Driver {
         throw new Error('Please provide both an email address and password.');
       }
 
+      let client: ComfortCloudClient;
       try {
-        const tokens = await client.login({ email, password });
-        state.tokens = tokens;
+        const result = await app.authenticateForPairing({ email, password });
+        client = result.client;
+        state.client = client;
+        state.tokens = result.tokens;
       } catch (error) {
         throw this.createPairingError('login', error);
       }
@@ -133,7 +388,8 @@ export default class PanasonicAcDriver extends Homey.Driver {
 
     session.setHandler('list_devices', async () => {
       this.log('[driver.ts] onPair list_devices invoked');
-      if (!state.tokens) {
+      const { client } = state;
+      if (!state.tokens || !client) {
         this.error('[driver.ts] onPair list_devices called without session tokens');
         throw new Error('Comfort Cloud login required before listing devices.');
       }
@@ -168,6 +424,32 @@ export default class PanasonicAcDriver extends Homey.Driver {
     });
   }
 
+  /**
+   * Repair flow offered when a device became unavailable because Comfort Cloud rejected the
+   * session. Logging in again replaces the shared session tokens for all devices.
+   */
+  async onRepair(session: Homey.Driver.PairSession, device: Homey.Device): Promise<void> {
+    this.log('[driver.ts] Repair session started for "%s"', device.getName());
+    const app = this.homey.app as PanasonicComfortCloudApp;
+
+    session.setHandler('login', async (credentials: ProviderLoginRequest) => {
+      const email = typeof credentials?.email === 'string' ? credentials.email.trim() : '';
+      const password = typeof credentials?.password === 'string' ? credentials.password : '';
+      if (!email || !password) {
+        throw new Error('Please provide both an email address and password.');
+      }
+
+      try {
+        await app.authenticate({ email, password });
+      } catch (error) {
+        throw this.createPairingError('login', error);
+      }
+
+      await (device as PanasonicAcDevice).handleRepaired();
+      return { success: true, repaired: true };
+    });
+  }
+
   private createPairingError(step: string, error: unknown): Error {
     const message = error instanceof Error ? error.message : String(error);
     this.error('[driver.ts] onPair %s failed: %s', step, message);
@@ -18,8 +18,12 @@ async function handleSubmit(event) {
 
   try {
     Homey.showLoadingOverlay();
-    await Homey.emit('login', { email, password });
+    const result = await Homey.emit('login', { email, password });
     Homey.hideLoadingOverlay();
+    if (result && result.repaired) {
+      Homey.done();
+      return;
+    }
     Homey.showView('devices');
   } catch (error) {
     Homey.hideLoadingOverlay();
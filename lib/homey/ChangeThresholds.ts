@@ -0,0 +1,47 @@
+/** A numeric reading that changed, passed to trigger run listeners as the card state. */
+export interface ValueChange {
+  /** Identifies the reading, so every flow evaluated for it gets the same answer. */
+  id: number;
+  previous: number;
+  current: number;
+}
+
+interface Reference {
+  value: number;
+  changeId: number;
+  passed: boolean;
+}
+
+/**
+ * Decides whether a numeric reading moved far enough to fire a trigger flow with a "minimum
+ * change" argument. Each card and threshold keeps the value at which it last fired, so slow drifts
+ * fire once they add up while sensor wobble below the threshold is ignored.
+ */
+export class ChangeThresholds {
+  private readonly references = new Map<string, Reference>();
+
+  passes(card: string, threshold: number, change: ValueChange): boolean {
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      return true;
+    }
+
+    const key = `${card}:${threshold}`;
+    const reference = this.references.get(key);
+    if (reference?.changeId === change.id) {
+      return reference.passed;
+    }
+
+    const base = reference?.value ?? change.previous;
+    // Rounded so e.g. 21.6 - 21.1 still counts as a change of 0.5.
+    const delta = Math.round(Math.abs(change.current - base) * 1000) / 1000;
+    const passed = delta >= threshold;
+    this.references.set(key, {
+      value: passed ? change.current : base,
+      changeId: change.id,
+      passed,
+    });
+    return passed;
+  }
+}
+
+export default ChangeThresholds;
@@ -0,0 +1,194 @@
+import axios from 'axios';
+import { TokenStore } from './Provider';
+
+/** Version sent when neither an override nor a previously working version is known. */
+export const DEFAULT_APP_VERSION = '1.19.0';
+
+const APP_STORE_LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1348640525';
+
+export interface AppVersionManagerOptions {
+  /** Persists the last version Comfort Cloud accepted (or discovered). */
+  store?: TokenStore<string>;
+  /** Returns the version configured by the user, if any. */
+  getOverride?: () => string | undefined;
+  /** Looks up the version of the current Comfort Cloud mobile app. Defaults to the App Store lookup. */
+  discover?: () => Promise<string | undefined>;
+  /** Invoked when a rejected version could not be replaced by a newer one. */
+  onUnrecoverable?: (rejectedVersion: string) => void;
+  /** Invoked when a replacement version has been accepted by Comfort Cloud. */
+  onRecovered?: (version: string) => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+/** Minimum time between two App Store lookups, so a lasting rejection does not query it on every request. */
+const DISCOVERY_INTERVAL = 60 * 60 * 1000;
+
+const VERSION_PATTERN = /^\d+(\.\d+){1,3}$/;
+
+export const isAppVersion = (value: unknown): value is string => typeof value === 'string'
+  && VERSION_PATTERN.test(value.trim());
+
+/**
+ * Compares two dotted version strings numerically. Returns a positive number when `a` is newer.
+ */
+export const compareAppVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+const lookupAppStoreVersion = async (): Promise<string | undefined> => {
+  const response = await axios.get<{ results?: Array<{ version?: unknown }> }>(APP_STORE_LOOKUP_URL, {
+    timeout: 10000,
+  });
+  const version = response.data?.results?.[0]?.version;
+  return isAppVersion(version) ? version.trim() : undefined;
+};
+
+/**
+ * Owns the `X-APP-VERSION` value sent to Comfort Cloud. Panasonic periodically raises the minimum
+ * app version it accepts; when a request is rejected for that reason the clients ask the manager
+ * for a newer version (user override, cached value or App Store lookup), retry with it and confirm
+ * it once it has been accepted so it survives restarts.
+ */
+export class AppVersionManager {
+  private readonly store?: TokenStore<string>;
+  private readonly getOverride?: () => string | undefined;
+  private readonly discover: () => Promise<string | undefined>;
+  private readonly onUnrecoverable?: (rejectedVersion: string) => void;
+  private readonly onRecovered?: (version: string) => void;
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private cached?: string;
+  private cachedLoaded = false;
+  private recovering?: Promise<string | null>;
+  private lastDiscoveryAt = 0;
+  private reportedVersion?: string;
+  private readonly rejected = new Set<string>();
+
+  constructor(options: AppVersionManagerOptions = {}) {
+    this.store = options.store;
+    this.getOverride = options.getOverride;
+    this.discover = options.discover ?? lookupAppStoreVersion;
+    this.onUnrecoverable = options.onUnrecoverable;
+    this.onRecovered = options.onRecovered;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Version to send with the next request: the override when set, otherwise the newest of the
+   * cached and the built-in version.
+   */
+  async getVersion(): Promise<string> {
+    const override = this.readOverride();
+    if (override && !this.rejected.has(override)) {
+      return override;
+    }
+
+    const cached = await this.getCached();
+    if (cached && compareAppVersions(cached, DEFAULT_APP_VERSION) > 0) {
+      return cached;
+    }
+    return DEFAULT_APP_VERSION;
+  }
+
+  /**
+   * Returns a version newer than the rejected one, or `null` when none is available. Concurrent
+   * callers share a single lookup.
+   */
+  async recover(rejectedVersion: string): Promise<string | null> {
+    this.rejected.add(rejectedVersion);
+    if (!this.recovering) {
+      this.recovering = this.findReplacement(rejectedVersion).finally(() => {
+        this.recovering = undefined;
+      });
+    }
+    return this.recovering;
+  }
+
+  /**
+   * Records a version Comfort Cloud accepted after a rejection.
+   */
+  async confirm(version: string): Promise<void> {
+    this.rejected.delete(version);
+    this.reportedVersion = undefined;
+    if (version === (await this.getCached())) {
+      return;
+    }
+
+    this.cached = version;
+    try {
+      await this.store?.set(version);
+    } catch (error) {
+      this.logger?.('[AppVersion.ts] confirm -> store.set failed: %s', (error as Error).message);
+    }
+    this.logger?.('[AppVersion.ts] Comfort Cloud accepted app version %s', version);
+    this.onRecovered?.(version);
+  }
+
+  private async findReplacement(rejectedVersion: string): Promise<string | null> {
+    const candidates: string[] = [];
+    const override = this.readOverride();
+    if (override) {
+      candidates.push(override);
+    }
+    const cached = await this.getCached();
+    if (cached) {
+      candidates.push(cached);
+    }
+
+    const replacement = candidates.find((candidate) => this.isUsable(candidate, rejectedVersion));
+    if (replacement) {
+      return replacement;
+    }
+
+    if (Date.now() - this.lastDiscoveryAt >= DISCOVERY_INTERVAL) {
+      this.lastDiscoveryAt = Date.now();
+      try {
+        const discovered = await this.discover();
+        if (discovered && this.isUsable(discovered, rejectedVersion)) {
+          this.logger?.('[AppVersion.ts] Discovered Comfort Cloud app version %s', discovered);
+          return discovered;
+        }
+      } catch (error) {
+        this.logger?.('[AppVersion.ts] findReplacement -> discover failed: %s', (error as Error).message);
+      }
+    }
+
+    if (this.reportedVersion !== rejectedVersion) {
+      this.reportedVersion = rejectedVersion;
+      this.logger?.('[AppVersion.ts] No replacement found for rejected app version %s', rejectedVersion);
+      this.onUnrecoverable?.(rejectedVersion);
+    }
+    return null;
+  }
+
+  private isUsable(candidate: string, rejectedVersion: string): boolean {
+    return !this.rejected.has(candidate) && compareAppVersions(candidate, rejectedVersion) > 0;
+  }
+
+  private readOverride(): string | undefined {
+    const value = this.getOverride?.();
+    return isAppVersion(value) ? value.trim() : undefined;
+  }
+
+  private async getCached(): Promise<string | undefined> {
+    if (!this.cachedLoaded) {
+      try {
+        const stored = await this.store?.get();
+        this.cached = isAppVersion(stored) ? stored : undefined;
+      } catch (error) {
+        this.logger?.('[AppVersion.ts] getCached -> store.get failed: %s', (error as Error).message);
+      }
+      this.cachedLoaded = true;
+    }
+    return this.cached;
+  }
+}
+
+export default AppVersionManager;
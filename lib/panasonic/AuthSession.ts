@@ -0,0 +1,149 @@
+import { AuthTokens } from '../../types';
+import { CredentialsMissingError, ReauthenticationRequiredError, toComfortCloudError } from './Errors';
+import { CredentialsClient } from './Provider';
+
+/** Exchanges the given tokens for new ones, typically `Provider.refresh`. */
+export type TokenRenewer = (tokens: AuthTokens) => Promise<AuthTokens>;
+
+export type TokensChangedListener = (tokens: AuthTokens | null, previous: AuthTokens | null) => void;
+
+export interface AuthSessionOptions {
+  credentialsClient: CredentialsClient;
+  /**
+   * Performs a full login with the stored account credentials when the refresh token has been
+   * rejected.
+   */
+  reauthenticate?: () => Promise<AuthTokens>;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+const EXPIRY_MARGIN = 60 * 1000;
+
+const expiresSoon = (tokens: AuthTokens): boolean => tokens.expiresAt - Date.now() < EXPIRY_MARGIN;
+
+/**
+ * Single owner of the Comfort Cloud tokens for the whole app. All clients read their tokens from
+ * the session, so a refresh performed by one client is immediately visible to the others. Refreshes
+ * and re-logins are single-flight: concurrent callers share the same attempt instead of rotating
+ * the refresh token out from under each other.
+ */
+export class AuthSession {
+  private readonly credentialsClient: CredentialsClient;
+  private readonly reauthenticate?: () => Promise<AuthTokens>;
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private readonly listeners = new Set<TokensChangedListener>();
+  private tokens: AuthTokens | null = null;
+  private tokensLoaded = false;
+  private renewing?: Promise<AuthTokens>;
+
+  constructor(options: AuthSessionOptions) {
+    this.credentialsClient = options.credentialsClient;
+    this.reauthenticate = options.reauthenticate;
+    this.logger = options.logger;
+  }
+
+  async getTokens(): Promise<AuthTokens | null> {
+    if (!this.tokensLoaded) {
+      this.tokens = await this.credentialsClient.getTokens();
+      this.tokensLoaded = true;
+    }
+    return this.tokens;
+  }
+
+  async setTokens(tokens: AuthTokens | null): Promise<void> {
+    const previous = this.tokens;
+    this.tokens = tokens;
+    this.tokensLoaded = true;
+    if (tokens) {
+      await this.credentialsClient.setTokens(tokens);
+    } else {
+      await this.credentialsClient.clearTokens();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(tokens, previous);
+      } catch (error) {
+        this.logger?.('[AuthSession.ts] Tokens listener failed: %s', (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Subscribes to token changes. Returns a function that removes the listener again.
+   */
+  onTokensChanged(listener: TokensChangedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async isAccount(email: string): Promise<boolean> {
+    const tokens = await this.getTokens();
+    return Boolean(tokens?.email && tokens.email.toLowerCase() === email.trim().toLowerCase());
+  }
+
+  /**
+   * Returns tokens that are valid for at least another minute, renewing them first when needed.
+   */
+  async getValidTokens(renew: TokenRenewer): Promise<AuthTokens> {
+    const tokens = await this.getTokens();
+    if (!tokens) {
+      throw new CredentialsMissingError();
+    }
+
+    if (expiresSoon(tokens)) {
+      return this.renew(renew, tokens);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Renews the session tokens. When `stale` is given and the session already holds different,
+   * still valid tokens (another client renewed them in the meantime), those are returned instead.
+   */
+  async renew(renew: TokenRenewer, stale?: AuthTokens): Promise<AuthTokens> {
+    const current = await this.getTokens();
+    if (!current) {
+      throw new CredentialsMissingError('Comfort Cloud tokens unavailable');
+    }
+
+    if (stale && current.accessToken !== stale.accessToken && !expiresSoon(current)) {
+      return current;
+    }
+
+    if (!this.renewing) {
+      this.renewing = this.performRenew(renew, current).finally(() => {
+        this.renewing = undefined;
+      });
+    }
+    return this.renewing;
+  }
+
+  private async performRenew(renew: TokenRenewer, tokens: AuthTokens): Promise<AuthTokens> {
+    try {
+      return await renew(tokens);
+    } catch (error) {
+      if (!this.reauthenticate || !this.isRefreshRejected(error)) {
+        throw error;
+      }
+    }
+
+    this.logger?.('[AuthSession.ts] Refresh token rejected, logging in again with stored credentials');
+    try {
+      return await this.reauthenticate();
+    } catch (error) {
+      this.logger?.('[AuthSession.ts] Re-login with stored credentials failed: %s', (error as Error).message);
+      throw error instanceof ReauthenticationRequiredError ? error : new ReauthenticationRequiredError();
+    }
+  }
+
+  private isRefreshRejected(error: unknown): boolean {
+    const { status } = toComfortCloudError(error);
+    return status === 400 || status === 401 || status === 403;
+  }
+}
+
+export default AuthSession;
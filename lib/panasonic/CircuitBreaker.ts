@@ -0,0 +1,174 @@
+import {
+  CircuitOpenError,
+  NetworkTimeoutError,
+  RateLimitedError,
+  RequestCancelledError,
+  ServerUnavailableError,
+} from './Errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  /** Consecutive failures counted since the last successful request. */
+  failures: number;
+  /** Time (epoch milliseconds) at which the next probe is allowed while open. */
+  retryAt?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a probe request is let through. */
+  openDuration?: number;
+  /** Upper bound for the open duration, which doubles after every failed probe. */
+  maxOpenDuration?: number;
+  onStateChange?: (snapshot: CircuitBreakerSnapshot) => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+export interface ExecuteOptions {
+  /**
+   * Tells whether the caller retries after the given failure. Outage failures that are retried are
+   * not counted, so a request and its retries count as a single failure.
+   */
+  isRetried?: (error: unknown) => boolean;
+}
+
+/**
+ * Account-wide circuit breaker around Comfort Cloud requests. After repeated outage-type failures
+ * (server errors, throttling, network errors) the circuit opens and requests fail immediately with
+ * a {@link CircuitOpenError}. Once the open period elapsed a single probe request is let through:
+ * its success closes the circuit again, its failure reopens it for a longer period.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly openDuration: number;
+  private readonly maxOpenDuration: number;
+  private readonly onStateChange?: (snapshot: CircuitBreakerSnapshot) => void;
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private retryAt = 0;
+  private currentOpenDuration: number;
+  private probing = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.openDuration = Math.max(0, options.openDuration ?? 60 * 1000);
+    this.maxOpenDuration = Math.max(this.openDuration, options.maxOpenDuration ?? 15 * 60 * 1000);
+    this.currentOpenDuration = this.openDuration;
+    this.onStateChange = options.onStateChange;
+    this.logger = options.logger;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      retryAt: this.state === 'closed' ? undefined : this.retryAt,
+    };
+  }
+
+  async execute<T>(fn: () => Promise<T>, options: ExecuteOptions = {}): Promise<T> {
+    this.acquire();
+    const probe = this.state === 'half-open';
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isOutage(error)) {
+        if (!options.isRetried?.(error)) {
+          this.recordFailure(error as Error);
+        }
+      } else if (!(error instanceof RequestCancelledError)) {
+        // Any other answer (authentication, validation, ...) shows Comfort Cloud is reachable.
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (probe) {
+        this.probing = false;
+      }
+    }
+  }
+
+  /**
+   * Opens the circuit right away, e.g. when the server asked to back off for a long time.
+   */
+  trip(duration: number): void {
+    this.open(Math.max(duration, this.openDuration));
+  }
+
+  private acquire(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'open' && Date.now() >= this.retryAt) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open' && !this.probing) {
+      this.probing = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.retryAt);
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    this.currentOpenDuration = this.openDuration;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private recordFailure(error: Error): void {
+    this.failures += 1;
+    if (this.state === 'half-open') {
+      this.currentOpenDuration = Math.min(this.currentOpenDuration * 2, this.maxOpenDuration);
+      this.open(this.currentOpenDuration);
+      return;
+    }
+    if (this.state === 'closed' && this.failures >= this.failureThreshold) {
+      this.logger?.('[CircuitBreaker.ts] Opening after %d consecutive failures: %s', this.failures, error.message);
+      this.open(this.currentOpenDuration);
+    }
+  }
+
+  private open(duration: number): void {
+    this.retryAt = Math.max(this.retryAt, Date.now() + duration);
+    if (this.state !== 'open') {
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.logger?.('[CircuitBreaker.ts] Circuit %s', state);
+    try {
+      this.onStateChange?.(this.getSnapshot());
+    } catch (error) {
+      this.logger?.('[CircuitBreaker.ts] State listener failed: %s', (error as Error).message);
+    }
+  }
+
+  private isOutage(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) {
+      return false;
+    }
+    return error instanceof ServerUnavailableError
+      || error instanceof RateLimitedError
+      || error instanceof NetworkTimeoutError;
+  }
+}
+
+export default CircuitBreaker;
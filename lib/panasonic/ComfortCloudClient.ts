@@ -1,12 +1,31 @@
 import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
 import { AuthTokens, ComfortDevice, DeviceState, ProviderLoginRequest } from '../../types';
-import { createWritePayload, mapDeviceState, mapDevicesFromResponse } from './Mappers';
-import { CredentialsClient, Provider } from './Provider';
-import RateLimiter from './RateLimiter';
+import {
+  createWritePayload,
+  mapDeviceState,
+  mapDeviceStatesFromResponse,
+  mapDevicesFromResponse,
+} from './Mappers';
+import AppVersionManager, { DEFAULT_APP_VERSION } from './AppVersion';
+import AuthSession from './AuthSession';
+import CircuitBreaker from './CircuitBreaker';
+import {
+  ApiVersionRejectedError,
+  AuthenticationFailedError,
+  CircuitOpenError,
+  RateLimitedError,
+  RequestCancelledError,
+  ServerUnavailableError,
+  toComfortCloudError,
+} from './Errors';
+import { Provider } from './Provider';
+import RateLimiter, { RequestPriority } from './RateLimiter';
+import RequestBudget from './RequestBudget';
 
 const DEFAULT_BASE_URL = 'https://accsmart.panasonic.com';
-const DEFAULT_APP_VERSION = '1.19.0';
 const DEFAULT_USER_AGENT = `HomeyPanasonicComfortCloud/${DEFAULT_APP_VERSION}`;
+const MAX_RETRIES = 3;
+const MAX_RETRY_DELAY = 15000;
 
 interface LoginResponse {
   uToken?: string;
@@ -35,33 +54,66 @@ interface DeviceStatusResponse {
 
 export interface ComfortCloudClientOptions {
   rateLimiter: RateLimiter;
-  credentialsClient: CredentialsClient;
+  session: AuthSession;
+  /** Supplies the `X-APP-VERSION` header; shared so a recovered version applies to every client. */
+  appVersion?: AppVersionManager;
+  /** Shared by all clients of the account so an outage pauses every device at once. */
+  circuitBreaker?: CircuitBreaker;
+  /** Account-wide daily request budget; every request sent to Comfort Cloud is taken from it. */
+  requestBudget?: RequestBudget;
   logger?: (message: string, ...args: unknown[]) => void;
   debug?: boolean;
   baseUrl?: string;
   userAgent?: string;
 }
 
-interface RequestOptions {
+export interface ReadOptions {
+  /** Rate limiter lane of the request. */
+  priority?: RequestPriority;
+  /** Maximum time (milliseconds) the request may wait in the rate limiter queue. */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+interface RequestOptions extends ReadOptions {
+  /** Shares the result with an identical request that is still queued. */
+  key?: string;
   requiresAuth?: boolean;
   attempt?: number;
+  /** Replacement app version to retry with after the current one was rejected. */
+  appVersion?: string;
 }
 
 const delay = async (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
 
+/**
+ * Backoff (milliseconds) before retrying a throttled or unavailable request, or `undefined` when the
+ * failure is not retried.
+ */
+const getRetryBackoff = (failure: unknown, attempt: number): number | undefined => {
+  if (!(failure instanceof RateLimitedError || failure instanceof ServerUnavailableError) || attempt >= MAX_RETRIES) {
+    return undefined;
+  }
+  return failure.retryAfter ?? Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY);
+};
+
 export class ComfortCloudClient implements Provider {
-  private readonly http: AxiosInstance;
-  private tokens: AuthTokens | null = null;
-  private tokensLoaded = false;
+  protected readonly http: AxiosInstance;
   private readonly rateLimiter: RateLimiter;
-  private readonly credentialsClient: CredentialsClient;
-  private readonly logger?: (message: string, ...args: unknown[]) => void;
-  private readonly debug: boolean;
+  private readonly session: AuthSession;
+  private readonly appVersion: AppVersionManager;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly requestBudget?: RequestBudget;
+  protected readonly logger?: (message: string, ...args: unknown[]) => void;
+  protected readonly debug: boolean;
   private readonly stateCache = new Map<string, DeviceState>();
 
   constructor(options: ComfortCloudClientOptions) {
     this.rateLimiter = options.rateLimiter;
-    this.credentialsClient = options.credentialsClient;
+    this.session = options.session;
+    this.appVersion = options.appVersion ?? new AppVersionManager({ logger: options.logger });
+    this.circuitBreaker = options.circuitBreaker ?? new CircuitBreaker({ logger: options.logger });
+    this.requestBudget = options.requestBudget;
     this.logger = options.logger;
     this.debug = Boolean(options.debug);
 
@@ -71,7 +123,6 @@ export class ComfortCloudClient implements Provider {
       headers: {
         'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
         'Content-Type': 'application/json',
-        'X-APP-VERSION': DEFAULT_APP_VERSION,
         'X-App-Type': '1',
         'Accept': 'application/json',
       },
@@ -91,7 +142,7 @@ export class ComfortCloudClient implements Provider {
       { requiresAuth: false },
     );
 
-    const tokens = this.parseTokens(response);
+    const tokens: AuthTokens = { ...this.parseTokens(response), email: credentials.email };
     await this.setTokens(tokens);
     this.logDebug('Authenticated Comfort Cloud account %s', tokens.userId);
     return tokens;
@@ -117,25 +168,64 @@ export class ComfortCloudClient implements Provider {
 
   async listDevices(): Promise<ComfortDevice[]> {
     await this.ensureAuthenticated();
-    const response = await this.request<ListDevicesResponse>({
-      url: '/device/group',
-      method: 'GET',
-    });
+    const response = await this.request<ListDevicesResponse>(
+      {
+        url: '/device/group',
+        method: 'GET',
+      },
+      { priority: 'pairing' },
+    );
     return mapDevicesFromResponse(response);
   }
 
-  async readState(deviceId: string): Promise<DeviceState> {
+  /**
+   * Reads the state of every device on the account through a single `/device/group` request.
+   */
+  async readAllStates(options: ReadOptions = {}): Promise<Map<string, DeviceState>> {
     await this.ensureAuthenticated();
-    const response = await this.request<DeviceStatusResponse>({
-      url: `/deviceStatus/${encodeURIComponent(deviceId)}`,
-      method: 'GET',
-    });
+    const response = await this.request<ListDevicesResponse>(
+      {
+        url: '/device/group',
+        method: 'GET',
+      },
+      { ...options, key: 'GET /device/group' },
+    );
+    const states = mapDeviceStatesFromResponse(response);
+    for (const [deviceId, state] of states) {
+      this.stateCache.set(deviceId, state);
+    }
+    return states;
+  }
+
+  async readState(deviceId: string, options: ReadOptions = {}): Promise<DeviceState> {
+    await this.ensureAuthenticated();
+    const url = `/deviceStatus/${encodeURIComponent(deviceId)}`;
+    const response = await this.request<DeviceStatusResponse>(
+      {
+        url,
+        method: 'GET',
+      },
+      { ...options, key: `GET ${url}` },
+    );
     const state = mapDeviceState(response);
     this.stateCache.set(deviceId, state);
     return state;
   }
 
   async writeState(deviceId: string, patch: Partial<DeviceState>): Promise<DeviceState> {
+    await this.control(deviceId, patch);
+
+    // Fetch updated state to ensure we have the latest values and respect server-side validation.
+    const updated = await this.readState(deviceId);
+    return updated;
+  }
+
+  /**
+   * Sends the patch to the unit without reading the state back. Comfort Cloud often reports the
+   * previous values for a few seconds after a control request, so callers that display the result
+   * should read the state again after a short delay.
+   */
+  async control(deviceId: string, patch: Partial<DeviceState>): Promise<void> {
     await this.ensureAuthenticated();
     const currentState = this.stateCache.get(deviceId);
     const payload = createWritePayload(patch, currentState);
@@ -148,96 +238,125 @@ export class ComfortCloudClient implements Provider {
         parameters: payload,
       },
     });
+  }
 
-    // Fetch updated state to ensure we have the latest values and respect server-side validation.
-    const updated = await this.readState(deviceId);
-    return updated;
+  /**
+   * Returns valid tokens from the shared session, renewing them through this client if needed.
+   */
+  async ensureAuthenticated(): Promise<AuthTokens> {
+    return this.session.getValidTokens((tokens) => this.refresh(tokens));
   }
 
-  private async request<T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> {
+  protected async request<T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> {
     const { requiresAuth = true, attempt = 0 } = options;
-    const headers = { ...(config.headers ?? {}) };
+    const appVersion = options.appVersion ?? await this.appVersion.getVersion();
+    const headers = { ...(config.headers ?? {}), 'X-APP-VERSION': appVersion };
 
+    let tokens: AuthTokens | undefined;
     if (requiresAuth) {
-      const tokens = await this.ensureAuthenticated();
-      headers['X-User-Authorization'] = tokens.accessToken;
+      tokens = await this.ensureAuthenticated();
+      this.applyAuthHeaders(headers, tokens);
     }
 
-    return this.rateLimiter.schedule(async () => {
-      try {
-        const response = await this.http.request<T>({
-          ...config,
-          headers,
-        });
-        return response.data;
-      } catch (error) {
-        const axiosError = error as AxiosError;
-        const status = axiosError.response?.status;
-        const method = String(config.method ?? 'GET').toUpperCase();
-        const url = String(config.url ?? 'unknown');
-        this.logError(
-          'Request %s %s failed (%s): %s',
-          method,
-          url,
-          status ?? 'unknown',
-          axiosError.message,
-        );
-
-        if (status === 401 && requiresAuth && attempt < 2) {
-          this.logDebug('Request %s %s unauthorized, attempting token refresh', method, url);
-          await this.handleUnauthorized();
-          return this.request<T>(config, { requiresAuth, attempt: attempt + 1 });
+    const method = String(config.method ?? 'GET').toUpperCase();
+    const url = String(config.url ?? 'unknown');
+
+    let data: T;
+    try {
+      // Retries below wait outside the limiter slot, so a backoff never blocks other requests.
+      const priority = options.priority ?? 'user';
+      const scheduleOptions = {
+        priority,
+        key: options.key,
+        timeout: options.timeout,
+        signal: options.signal,
+      };
+      data = await this.circuitBreaker.execute(() => this.rateLimiter.schedule(async (lane) => {
+        // The lane of the most urgent caller sharing this request, which may differ from ours.
+        if (this.requestBudget && !this.requestBudget.tryConsume(lane)) {
+          throw new RequestCancelledError('budget');
+        }
+        try {
+          const response = await this.http.request<T>({
+            ...config,
+            headers,
+          });
+          return response.data;
+        } catch (error) {
+          const axiosError = error as AxiosError;
+          this.logError(
+            'Request %s %s failed (%s): %s',
+            method,
+            url,
+            axiosError.response?.status ?? 'unknown',
+            axiosError.message,
+          );
+          throw toComfortCloudError(error);
         }
+      }, scheduleOptions), {
+        // Retried failures are not counted, so the breaker sees one failure per logical request.
+        isRetried: (error) => (getRetryBackoff(error, attempt) ?? Infinity) <= MAX_RETRY_DELAY,
+      });
+    } catch (error) {
+      const failure = toComfortCloudError(error);
+      if (failure instanceof CircuitOpenError || failure instanceof RequestCancelledError) {
+        throw failure;
+      }
 
-        if ((status === 429 || (status ?? 0) >= 500) && attempt < 4) {
-          const backoff = Math.min(1000 * Math.pow(2, attempt), 15000);
-          this.logDebug('Request %s %s rate limited, retrying in %dms', method, url, backoff);
-          await delay(backoff);
-          return this.request<T>(config, { requiresAuth, attempt: attempt + 1 });
+      // Version rejections may come with a 401; refreshing the tokens would not help there.
+      if (failure instanceof ApiVersionRejectedError) {
+        const replacement = await this.appVersion.recover(appVersion);
+        if (!replacement) {
+          throw failure;
         }
+        this.logError('App version %s rejected, retrying with %s', appVersion, replacement);
+        return this.request<T>(config, { ...options, attempt, appVersion: replacement });
+      }
 
-        throw error;
+      if (failure.status === 401 && requiresAuth && attempt < 2) {
+        this.logDebug('Request %s %s unauthorized, attempting token refresh', method, url);
+        await this.handleUnauthorized(tokens);
+        return this.request<T>(config, { ...options, attempt: attempt + 1 });
       }
-    });
-  }
 
-  private async ensureAuthenticated(): Promise<AuthTokens> {
-    const tokens = await this.getTokens();
-    if (!tokens) {
-      throw new Error('Comfort Cloud credentials missing');
-    }
+      const backoff = getRetryBackoff(failure, attempt);
+      if (backoff !== undefined) {
+        if (backoff > MAX_RETRY_DELAY) {
+          // Comfort Cloud asked for a longer pause than a request should wait: pause the account.
+          this.logError('Request %s %s asked to retry after %dms, pausing requests', method, url, backoff);
+          this.circuitBreaker.trip(backoff);
+          throw failure;
+        }
+        this.logDebug('Request %s %s failed (%s), retrying in %dms', method, url, failure.status, backoff);
+        await delay(backoff);
+        return this.request<T>(config, { ...options, attempt: attempt + 1 });
+      }
 
-    const expiresSoon = tokens.expiresAt - Date.now() < 60 * 1000;
-    if (expiresSoon) {
-      return this.refresh(tokens);
+      throw failure;
     }
 
-    return tokens;
+    if (options.appVersion) {
+      await this.appVersion.confirm(options.appVersion);
+    }
+    return data;
   }
 
-  private async getTokens(): Promise<AuthTokens | null> {
-    if (!this.tokensLoaded) {
-      this.tokens = await this.credentialsClient.getTokens();
-      this.tokensLoaded = true;
-    }
-    return this.tokens;
+  /**
+   * Adds the authorization headers expected by the Comfort Cloud API for the given tokens.
+   */
+  protected applyAuthHeaders(headers: Record<string, unknown>, tokens: AuthTokens): void {
+    headers['X-User-Authorization'] = tokens.accessToken;
   }
 
-  private async setTokens(tokens: AuthTokens | null): Promise<void> {
-    this.tokens = tokens;
-    this.tokensLoaded = true;
-    if (tokens) {
-      await this.credentialsClient.setTokens(tokens);
-    } else {
-      await this.credentialsClient.clearTokens();
-    }
+  protected async setTokens(tokens: AuthTokens | null): Promise<void> {
+    await this.session.setTokens(tokens);
   }
 
   private parseTokens(response: LoginResponse, previous?: AuthTokens): AuthTokens {
     const accessToken = response.uToken ?? response.accessToken;
     const refreshToken = response.refreshToken ?? previous?.refreshToken;
     if (!accessToken || !refreshToken) {
-      throw new Error('Comfort Cloud authentication failed');
+      throw new AuthenticationFailedError('Comfort Cloud authentication failed');
     }
 
     const expiresIn = response.expiresIn ?? response.expires_in ?? 3600;
@@ -247,28 +366,26 @@ export class ComfortCloudClient implements Provider {
       refreshToken,
       userId,
       expiresAt: Date.now() + Math.max(expiresIn - 60, 60) * 1000,
+      provider: 'legacy',
+      email: previous?.email,
     };
   }
 
-  private async handleUnauthorized(): Promise<void> {
-    const tokens = await this.getTokens();
-    if (!tokens) {
-      throw new Error('Comfort Cloud tokens unavailable');
-    }
-    await this.refresh(tokens);
+  private async handleUnauthorized(staleTokens: AuthTokens | undefined): Promise<void> {
+    await this.session.renew((tokens) => this.refresh(tokens), staleTokens);
   }
 
-  private logDebug(message: string, ...args: unknown[]): void {
+  protected logDebug(message: string, ...args: unknown[]): void {
     if (this.debug) {
       this.logger?.(this.formatLog(message), ...args);
     }
   }
 
-  private logError(message: string, ...args: unknown[]): void {
+  protected logError(message: string, ...args: unknown[]): void {
     this.logger?.(this.formatLog(message), ...args);
   }
 
-  private formatLog(message: string): string {
+  protected formatLog(message: string): string {
     return `[ComfortCloudClient] ${message}`;
   }
 }
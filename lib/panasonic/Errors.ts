@@ -0,0 +1,122 @@
+import axios from 'axios';
+import { ApiVersionRejectedError } from './errors/ApiVersionRejectedError';
+import { AuthenticationFailedError } from './errors/AuthenticationFailedError';
+import { ComfortCloudError, ComfortCloudErrorDetails } from './errors/ComfortCloudError';
+import { DeviceOfflineError } from './errors/DeviceOfflineError';
+import { NetworkTimeoutError } from './errors/NetworkTimeoutError';
+import { RateLimitedError } from './errors/RateLimitedError';
+import { ServerUnavailableError } from './errors/ServerUnavailableError';
+import { ValidationRejectedError } from './errors/ValidationRejectedError';
+
+export { ApiVersionRejectedError } from './errors/ApiVersionRejectedError';
+export { AuthenticationFailedError } from './errors/AuthenticationFailedError';
+export { CircuitOpenError } from './errors/CircuitOpenError';
+export { ComfortCloudError } from './errors/ComfortCloudError';
+export type { ComfortCloudErrorDetails } from './errors/ComfortCloudError';
+export { CredentialsMissingError } from './errors/CredentialsMissingError';
+export { DeviceOfflineError } from './errors/DeviceOfflineError';
+export { NetworkTimeoutError } from './errors/NetworkTimeoutError';
+export { RateLimitedError } from './errors/RateLimitedError';
+export { ReauthenticationRequiredError } from './errors/ReauthenticationRequiredError';
+export { RequestCancelledError } from './errors/RequestCancelledError';
+export type { RequestCancelReason } from './errors/RequestCancelledError';
+export { ServerUnavailableError } from './errors/ServerUnavailableError';
+export { ValidationRejectedError } from './errors/ValidationRejectedError';
+
+/**
+ * Error codes Panasonic reports in the body of failed Comfort Cloud responses.
+ */
+const PANASONIC_ERROR_CODES = {
+  tokenExpired: ['4100'],
+  versionRejected: ['4106'],
+  deviceOffline: ['5005'],
+};
+
+const readErrorBody = (data: unknown): { code?: string; message?: string } => {
+  let body = data;
+  if (typeof data === 'string') {
+    try {
+      body = JSON.parse(data);
+    } catch (error) {
+      return { message: data.trim() || undefined };
+    }
+  }
+  if (!body || typeof body !== 'object') {
+    return {};
+  }
+
+  const candidate = body as { code?: unknown; message?: unknown; error?: unknown; 'error_description'?: unknown };
+  const code = candidate.code ?? candidate.error;
+  const message = candidate.message ?? candidate['error_description'];
+  return {
+    code: typeof code === 'string' || typeof code === 'number' ? String(code) : undefined,
+    message: typeof message === 'string' ? message : undefined,
+  };
+};
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ */
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Converts any failure of a Comfort Cloud request into the matching {@link ComfortCloudError}.
+ * The HTTP status and the Panasonic error code of the response body are kept on the error.
+ */
+export function toComfortCloudError(error: unknown): ComfortCloudError {
+  if (error instanceof ComfortCloudError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new ComfortCloudError(message, { cause: error });
+  }
+
+  const { response } = error;
+  if (!response) {
+    return new NetworkTimeoutError(undefined, { code: error.code, cause: error });
+  }
+
+  const { status } = response;
+  const body = readErrorBody(response.data);
+  const details: ComfortCloudErrorDetails = {
+    status,
+    code: body.code,
+    retryAfter: parseRetryAfter(response.headers?.['retry-after']),
+    cause: error,
+  };
+  const serverMessage = body.message ? `: ${body.message}` : '';
+
+  const versionRejected = (body.code && PANASONIC_ERROR_CODES.versionRejected.includes(body.code))
+    || (status < 500 && /app version|update the app/i.test(body.message ?? ''));
+  if (versionRejected) {
+    return new ApiVersionRejectedError(undefined, details);
+  }
+  if (body.code && PANASONIC_ERROR_CODES.deviceOffline.includes(body.code)) {
+    return new DeviceOfflineError(undefined, details);
+  }
+  if (status === 401 || status === 403 || (body.code && PANASONIC_ERROR_CODES.tokenExpired.includes(body.code))) {
+    return new AuthenticationFailedError(undefined, details);
+  }
+  if (status === 429) {
+    return new RateLimitedError(undefined, details);
+  }
+  if (status >= 500) {
+    return new ServerUnavailableError(undefined, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationRejectedError(`Comfort Cloud rejected the requested settings${serverMessage}`, details);
+  }
+  return new ComfortCloudError(`Comfort Cloud request failed (HTTP ${status})${serverMessage}`, details);
+}
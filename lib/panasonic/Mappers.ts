@@ -2,9 +2,14 @@ import {
   ComfortDevice,
   ComfortDeviceFeatures,
   DeviceState,
+  EcoMode,
   FanSpeed,
+  HorizontalVanePosition,
+  ModeTemperatureRanges,
   SwingMode,
+  TemperatureRange,
   ThermostatMode,
+  VerticalVanePosition,
 } from '../../types';
 
 const MODE_MAP: Record<number, ThermostatMode> = {
@@ -22,15 +27,78 @@ const MODE_REVERSE_MAP = Object.fromEntries(
 const FAN_SPEED_MAP: Record<number, FanSpeed> = {
   0: 'auto',
   1: 'low',
-  2: 'medium',
-  3: 'high',
+  2: 'low_medium',
+  3: 'medium',
+  4: 'medium_high',
+  5: 'high',
 };
 
 const FAN_SPEED_REVERSE_MAP = Object.fromEntries(
   Object.entries(FAN_SPEED_MAP).map(([key, value]) => [value, Number(key)]),
 ) as Record<FanSpeed, number>;
 
-const DEFAULT_FAN_SPEEDS: FanSpeed[] = ['auto', 'low', 'medium', 'high'];
+const ECO_MODE_MAP: Record<number, EcoMode> = {
+  0: 'auto',
+  1: 'powerful',
+  2: 'quiet',
+};
+
+const ECO_MODE_REVERSE_MAP = Object.fromEntries(
+  Object.entries(ECO_MODE_MAP).map(([key, value]) => [value, Number(key)]),
+) as Record<EcoMode, number>;
+
+const VERTICAL_VANE_MAP: Record<number, VerticalVanePosition> = {
+  [-1]: 'auto',
+  0: 'up',
+  3: 'up_mid',
+  2: 'mid',
+  4: 'down_mid',
+  1: 'down',
+};
+
+const VERTICAL_VANE_REVERSE_MAP = Object.fromEntries(
+  Object.entries(VERTICAL_VANE_MAP).map(([key, value]) => [value, Number(key)]),
+) as Record<VerticalVanePosition, number>;
+
+const HORIZONTAL_VANE_MAP: Record<number, HorizontalVanePosition> = {
+  [-1]: 'auto',
+  0: 'left',
+  4: 'left_mid',
+  2: 'mid',
+  3: 'right_mid',
+  1: 'right',
+};
+
+const HORIZONTAL_VANE_REVERSE_MAP = Object.fromEntries(
+  Object.entries(HORIZONTAL_VANE_MAP).map(([key, value]) => [value, Number(key)]),
+) as Record<HorizontalVanePosition, number>;
+
+/** `fanAutoMode` values: which axes swing automatically. */
+const AUTO_SWING_BOTH = 0;
+const AUTO_SWING_OFF = 1;
+const AUTO_SWING_VERTICAL = 2;
+const AUTO_SWING_HORIZONTAL = 3;
+
+/**
+ * On/off features (nanoe, ecoNavi, inside cleaning) report 0 when the unit lacks them, 1 when off
+ * and 2 (or higher, e.g. nanoe's sub-modes) when on.
+ */
+const TOGGLE_OFF = 1;
+const TOGGLE_ON = 2;
+
+/** All fan speeds from low to high; units that do not list their speeds are assumed to support them all. */
+export const FAN_SPEEDS: FanSpeed[] = ['auto', 'low', 'low_medium', 'medium', 'medium_high', 'high'];
+
+/** Spellings of the intermediate levels used by Comfort Cloud and its apps. */
+const FAN_SPEED_ALIASES: Record<string, FanSpeed> = {
+  lowmid: 'low_medium',
+  lowmedium: 'low_medium',
+  mid: 'medium',
+  midhigh: 'medium_high',
+  highmid: 'medium_high',
+  mediumhigh: 'medium_high',
+  highmedium: 'medium_high',
+};
 
 const clamp = (value: number, min?: number, max?: number): number => {
   if (typeof min === 'number') {
@@ -42,37 +110,172 @@ const clamp = (value: number, min?: number, max?: number): number => {
   return value;
 };
 
+export function mapFanSpeed(rawSpeed: unknown): FanSpeed | undefined {
+  if (typeof rawSpeed === 'string') {
+    const normalized = rawSpeed.toLowerCase() as FanSpeed;
+    if (FAN_SPEEDS.includes(normalized)) {
+      return normalized;
+    }
+    const alias = FAN_SPEED_ALIASES[normalized.replace(/[^a-z]/g, '')];
+    if (alias) {
+      return alias;
+    }
+  }
+  if (typeof rawSpeed === 'number' && rawSpeed in FAN_SPEED_MAP) {
+    return FAN_SPEED_MAP[rawSpeed];
+  }
+  return undefined;
+}
+
+const isToggleAvailable = (rawValue: unknown): boolean => (
+  typeof rawValue === 'boolean' || (typeof rawValue === 'number' && rawValue > 0)
+);
+
+export function mapToggle(rawValue: unknown): boolean | undefined {
+  if (typeof rawValue === 'boolean') {
+    return rawValue;
+  }
+  if (typeof rawValue === 'number' && rawValue > 0) {
+    return rawValue >= TOGGLE_ON;
+  }
+  return undefined;
+}
+
+/**
+ * Per-mode setpoint limits, reported as e.g. `heatMinTemp`/`heatMaxTemp`. A mode that reports only
+ * one limit uses the unit's overall range for the other. A setpoint that is an offset from the
+ * unit's own target is reported as e.g. `autoMinOffset`/`autoMaxOffset` (one limit mirrors the
+ * other), and e.g. `dryTempAvl: 0` marks a mode without a setpoint.
+ */
+function mapTemperatureRanges(
+  raw: Record<string, unknown> | undefined,
+  minTemperature?: number,
+  maxTemperature?: number,
+): ModeTemperatureRanges | undefined {
+  const ranges: ModeTemperatureRanges = {};
+  for (const mode of Object.values(MODE_MAP)) {
+    const available = raw?.[`${mode}TempAvl`];
+    const rawMin = raw?.[`${mode}MinTemp`];
+    const rawMax = raw?.[`${mode}MaxTemp`];
+    const rawMinOffset = raw?.[`${mode}MinOffset`];
+    const rawMaxOffset = raw?.[`${mode}MaxOffset`];
+    const min = typeof rawMin === 'number' ? rawMin : minTemperature;
+    const max = typeof rawMax === 'number' ? rawMax : maxTemperature;
+    if (available === 0 || available === false) {
+      ranges[mode] = null;
+    } else if (typeof rawMinOffset === 'number' || typeof rawMaxOffset === 'number') {
+      ranges[mode] = {
+        min: typeof rawMinOffset === 'number' ? rawMinOffset : -(rawMaxOffset as number),
+        max: typeof rawMaxOffset === 'number' ? rawMaxOffset : -(rawMinOffset as number),
+        offset: true,
+      };
+    } else if ((typeof rawMin === 'number' || typeof rawMax === 'number') && min !== undefined && max !== undefined) {
+      ranges[mode] = { min, max };
+    }
+  }
+  return Object.keys(ranges).length > 0 ? ranges : undefined;
+}
+
+type TemperatureLimits = Pick<ComfortDeviceFeatures, 'minTemperature' | 'maxTemperature' | 'temperatureRanges'>;
+
+/**
+ * Setpoint limits that apply in the mode: the mode's own range, otherwise the unit's overall range.
+ */
+export function getTemperatureRange(
+  limits: TemperatureLimits | undefined,
+  mode: ThermostatMode | undefined,
+): Partial<TemperatureRange> {
+  const range = mode ? limits?.temperatureRanges?.[mode] : undefined;
+  return range ?? { min: limits?.minTemperature, max: limits?.maxTemperature };
+}
+
+/**
+ * Whether the unit takes a setpoint in the mode; the dry mode of some units does not.
+ */
+export function hasSetpoint(limits: TemperatureLimits | undefined, mode: ThermostatMode | undefined): boolean {
+  return !mode || limits?.temperatureRanges?.[mode] !== null;
+}
+
 export function mapDeviceFeatures(raw: Record<string, unknown> | undefined): ComfortDeviceFeatures {
   const minTemperature = typeof raw?.minTemp === 'number' ? raw?.minTemp : undefined;
   const maxTemperature = typeof raw?.maxTemp === 'number' ? raw?.maxTemp : undefined;
+  const temperatureRanges = mapTemperatureRanges(raw, minTemperature, maxTemperature);
   const supportsHumidity = typeof raw?.insideHumidity === 'number';
   const supportsOutdoorTemperature = typeof raw?.outsideTemp === 'number' || typeof raw?.outTemp === 'number';
   const supportsEnergyMonitoring =
     typeof raw?.cumulativePower === 'number' || typeof raw?.instantPower === 'number' || typeof raw?.dayPower === 'number';
   const supportsSwingVertical = raw?.airSwingUD !== undefined;
   const supportsSwingHorizontal = raw?.airSwingLR !== undefined;
+  const supportsEcoMode = raw?.ecoMode !== undefined;
+  const supportsNanoe = isToggleAvailable(raw?.nanoe);
+  const supportsEcoNavi = isToggleAvailable(raw?.ecoNavi);
+  const supportsInsideCleaning = isToggleAvailable(raw?.insideCleaning);
 
-  let fanSpeeds = DEFAULT_FAN_SPEEDS;
+  let fanSpeeds = FAN_SPEEDS;
   if (Array.isArray(raw?.supportedFanSpeeds)) {
-    fanSpeeds = (raw?.supportedFanSpeeds as string[])
-      .map((entry) => entry.toLowerCase() as FanSpeed)
-      .filter((entry): entry is FanSpeed => DEFAULT_FAN_SPEEDS.includes(entry));
+    const supported = new Set((raw?.supportedFanSpeeds as unknown[]).map(mapFanSpeed));
+    fanSpeeds = FAN_SPEEDS.filter((speed) => supported.has(speed));
   }
 
   return {
     minTemperature,
     maxTemperature,
+    temperatureRanges,
     fanSpeeds,
     supportsHumidity,
     supportsOutdoorTemperature,
     supportsEnergyMonitoring,
     supportsSwingVertical,
     supportsSwingHorizontal,
+    supportsEcoMode,
+    supportsNanoe,
+    supportsEcoNavi,
+    supportsInsideCleaning,
+  };
+}
+
+/**
+ * Combines stored features with those detected in a later read or device listing. Reported
+ * setpoint limits replace the stored ones; optional functions and fan speeds are only ever added,
+ * so a read that misses a parameter does not take a function away.
+ */
+export function mergeDeviceFeatures(
+  current: ComfortDeviceFeatures,
+  detected: ComfortDeviceFeatures,
+): ComfortDeviceFeatures {
+  const fanSpeeds = new Set([...current.fanSpeeds, ...detected.fanSpeeds]);
+  return {
+    minTemperature: detected.minTemperature ?? current.minTemperature,
+    maxTemperature: detected.maxTemperature ?? current.maxTemperature,
+    temperatureRanges: detected.temperatureRanges ?? current.temperatureRanges,
+    fanSpeeds: FAN_SPEEDS.filter((speed) => fanSpeeds.has(speed)),
+    supportsHumidity: Boolean(current.supportsHumidity || detected.supportsHumidity),
+    supportsOutdoorTemperature: Boolean(current.supportsOutdoorTemperature || detected.supportsOutdoorTemperature),
+    supportsEnergyMonitoring: Boolean(current.supportsEnergyMonitoring || detected.supportsEnergyMonitoring),
+    supportsSwingVertical: Boolean(current.supportsSwingVertical || detected.supportsSwingVertical),
+    supportsSwingHorizontal: Boolean(current.supportsSwingHorizontal || detected.supportsSwingHorizontal),
+    supportsEcoMode: Boolean(current.supportsEcoMode || detected.supportsEcoMode),
+    supportsNanoe: Boolean(current.supportsNanoe || detected.supportsNanoe),
+    supportsEcoNavi: Boolean(current.supportsEcoNavi || detected.supportsEcoNavi),
+    supportsInsideCleaning: Boolean(current.supportsInsideCleaning || detected.supportsInsideCleaning),
   };
 }
 
 export function mapDevice(raw: any): ComfortDevice {
   const features = mapDeviceFeatures(raw?.parameters ?? {});
+  // The device listing flags the optional functions of a unit next to its parameters.
+  if (raw?.powerfulMode === true || raw?.quietMode === true) {
+    features.supportsEcoMode = true;
+  }
+  if (raw?.nanoe === true) {
+    features.supportsNanoe = true;
+  }
+  if (raw?.ecoNavi === true) {
+    features.supportsEcoNavi = true;
+  }
+  if (raw?.insideCleaning === true) {
+    features.supportsInsideCleaning = true;
+  }
 
   return {
     id: String(raw?.deviceGuid ?? raw?.id ?? raw?.deviceId ?? ''),
@@ -120,40 +323,120 @@ export function mapThermostatMode(rawMode: unknown): ThermostatMode {
   return 'auto';
 }
 
-export function mapFanSpeed(rawSpeed: unknown): FanSpeed | undefined {
-  if (typeof rawSpeed === 'string') {
-    const normalized = rawSpeed.toLowerCase() as FanSpeed;
-    if (DEFAULT_FAN_SPEEDS.includes(normalized)) {
+export function mapEcoMode(rawMode: unknown): EcoMode | undefined {
+  if (typeof rawMode === 'string') {
+    const normalized = rawMode.toLowerCase() as EcoMode;
+    if (normalized in ECO_MODE_REVERSE_MAP) {
       return normalized;
     }
   }
-  if (typeof rawSpeed === 'number' && rawSpeed in FAN_SPEED_MAP) {
-    return FAN_SPEED_MAP[rawSpeed];
+  if (typeof rawMode === 'number' && rawMode in ECO_MODE_MAP) {
+    return ECO_MODE_MAP[rawMode];
   }
   return undefined;
 }
 
-export function mapSwingMode(rawUd: unknown, rawLr: unknown): SwingMode | undefined {
-  const ud = typeof rawUd === 'number' ? rawUd : undefined;
-  const lr = typeof rawLr === 'number' ? rawLr : undefined;
+/**
+ * Position of the vertical vane. Comfort Cloud reports the automatic swing separately
+ * (`fanAutoMode`), in which case `airSwingUD` holds the last fixed position.
+ */
+export function mapVerticalVane(rawPosition: unknown, rawAutoMode: unknown): VerticalVanePosition | undefined {
+  if (rawAutoMode === AUTO_SWING_BOTH || rawAutoMode === AUTO_SWING_VERTICAL) {
+    return 'auto';
+  }
+  if (typeof rawPosition === 'number' && rawPosition in VERTICAL_VANE_MAP) {
+    return VERTICAL_VANE_MAP[rawPosition];
+  }
+  return undefined;
+}
 
-  if (ud === 0 && lr === 0) {
-    return 'off';
+export function mapHorizontalVane(rawPosition: unknown, rawAutoMode: unknown): HorizontalVanePosition | undefined {
+  if (rawAutoMode === AUTO_SWING_BOTH || rawAutoMode === AUTO_SWING_HORIZONTAL) {
+    return 'auto';
   }
+  if (typeof rawPosition === 'number' && rawPosition in HORIZONTAL_VANE_MAP) {
+    return HORIZONTAL_VANE_MAP[rawPosition];
+  }
+  return undefined;
+}
 
-  if ((ud !== undefined && ud > 0) && (lr !== undefined && lr > 0)) {
+/**
+ * The four-value swing mode of the `swing_mode` capability: the axes whose vane is on auto.
+ */
+export function deriveSwingMode(
+  verticalVane: VerticalVanePosition | undefined,
+  horizontalVane: HorizontalVanePosition | undefined,
+): SwingMode | undefined {
+  if (verticalVane === undefined && horizontalVane === undefined) {
+    return undefined;
+  }
+  const vertical = verticalVane === 'auto';
+  const horizontal = horizontalVane === 'auto';
+  if (vertical && horizontal) {
     return 'both';
   }
-
-  if (ud !== undefined && ud > 0) {
+  if (vertical) {
     return 'vertical';
   }
+  return horizontal ? 'horizontal' : 'off';
+}
 
-  if (lr !== undefined && lr > 0) {
-    return 'horizontal';
+const swingsVertically = (mode: SwingMode): boolean => mode === 'vertical' || mode === 'both';
+const swingsHorizontally = (mode: SwingMode): boolean => mode === 'horizontal' || mode === 'both';
+
+/**
+ * Completes the swing-related values of a patch so the swing mode and the vane positions agree:
+ * a swing mode sets the vanes of its axes to auto, a vane position updates the swing mode.
+ * Vanes that stop swinging keep a position only Comfort Cloud knows, so they are left out.
+ */
+export function expandSwingPatch(
+  patch: Partial<DeviceState>,
+  currentState: DeviceState | undefined,
+): Partial<DeviceState> {
+  if (patch.verticalVane !== undefined || patch.horizontalVane !== undefined) {
+    const verticalVane = patch.verticalVane ?? currentState?.verticalVane;
+    const horizontalVane = patch.horizontalVane ?? currentState?.horizontalVane;
+    return { ...patch, swingMode: deriveSwingMode(verticalVane, horizontalVane) ?? patch.swingMode };
+  }
+  if (!patch.swingMode) {
+    return patch;
   }
 
-  return undefined;
+  const expanded: Partial<DeviceState> = { ...patch };
+  if (swingsVertically(patch.swingMode)) {
+    expanded.verticalVane = 'auto';
+  } else if (currentState?.verticalVane && currentState.verticalVane !== 'auto') {
+    expanded.verticalVane = currentState.verticalVane;
+  }
+  if (swingsHorizontally(patch.swingMode)) {
+    expanded.horizontalVane = 'auto';
+  } else if (currentState?.horizontalVane && currentState.horizontalVane !== 'auto') {
+    expanded.horizontalVane = currentState.horizontalVane;
+  }
+  return expanded;
+}
+
+function mapOnline(raw: unknown): boolean | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const { online, connected, parameters } = raw as { online?: unknown; connected?: unknown; parameters?: unknown };
+  const nested = parameters && typeof parameters === 'object' ? (parameters as { online?: unknown }).online : undefined;
+  const flag = online ?? connected ?? nested;
+  return typeof flag === 'boolean' ? flag : undefined;
+}
+
+/**
+ * Comfort Cloud's report time of the values, in epoch millis. Seconds are converted, and times in
+ * the future (clock skew) are capped to now.
+ */
+function mapTimestamp(rawTimestamp: unknown): number {
+  const now = Date.now();
+  if (typeof rawTimestamp !== 'number' || !Number.isFinite(rawTimestamp) || rawTimestamp <= 0) {
+    return now;
+  }
+  const millis = rawTimestamp < 1e12 ? rawTimestamp * 1000 : rawTimestamp;
+  return Math.min(millis, now);
 }
 
 export function mapDeviceState(raw: any, device?: ComfortDevice): DeviceState {
@@ -162,11 +445,13 @@ export function mapDeviceState(raw: any, device?: ComfortDevice): DeviceState {
 
   const thermostatMode = mapThermostatMode(parameters?.operationMode ?? parameters?.mode);
   const fanSpeed = mapFanSpeed(parameters?.fanSpeed ?? parameters?.fan ?? parameters?.airVolume);
-  const swingMode = mapSwingMode(parameters?.airSwingUD, parameters?.airSwingLR);
+  const verticalVane = mapVerticalVane(parameters?.airSwingUD, parameters?.fanAutoMode);
+  const horizontalVane = mapHorizontalVane(parameters?.airSwingLR, parameters?.fanAutoMode);
   const targetTemperatureRaw = typeof parameters?.targetTemp === 'number' ? parameters.targetTemp : parameters?.temperature;
+  const range = getTemperatureRange(features, thermostatMode);
   const targetTemperature = typeof targetTemperatureRaw === 'number'
-    ? clamp(targetTemperatureRaw, features.minTemperature, features.maxTemperature)
-    : features.minTemperature ?? 22;
+    ? clamp(targetTemperatureRaw, range.min, range.max)
+    : range.min ?? 22;
 
   const state: DeviceState = {
     on: parameters?.operate === 1 || parameters?.power === 1 || parameters?.power === '1',
@@ -174,6 +459,7 @@ export function mapDeviceState(raw: any, device?: ComfortDevice): DeviceState {
     targetTemperature,
     minTemperature: features.minTemperature,
     maxTemperature: features.maxTemperature,
+    temperatureRanges: features.temperatureRanges,
     indoorTemperature:
       typeof parameters?.insideTemp === 'number'
         ? parameters.insideTemp
@@ -188,7 +474,13 @@ export function mapDeviceState(raw: any, device?: ComfortDevice): DeviceState {
         ? parameters.outTemp
         : undefined,
     fanSpeed,
-    swingMode,
+    swingMode: deriveSwingMode(verticalVane, horizontalVane),
+    verticalVane,
+    horizontalVane,
+    ecoMode: mapEcoMode(parameters?.ecoMode),
+    nanoe: mapToggle(parameters?.nanoe),
+    ecoNavi: mapToggle(parameters?.ecoNavi),
+    insideCleaning: mapToggle(parameters?.insideCleaning),
     powerConsumption:
       typeof parameters?.instantPower === 'number'
         ? parameters.instantPower
@@ -198,13 +490,36 @@ export function mapDeviceState(raw: any, device?: ComfortDevice): DeviceState {
     energyConsumption: typeof parameters?.cumulativePower === 'number' ? parameters.cumulativePower : undefined,
     filterAlarm: parameters?.filterSign === 1 || parameters?.filterAlarm === true,
     connectionAlarm: parameters?.connectionAlarm === true || parameters?.errorStatus === 1,
-    timestamp: Date.now(),
+    online: mapOnline(raw),
+    timestamp: mapTimestamp(raw?.timestamp),
     raw: parameters,
   };
 
   return state;
 }
 
+/**
+ * Splits the embedded `parameters` of a `/device/group` listing into one state per device.
+ * Devices that are listed without parameters are omitted so callers can fall back to a
+ * dedicated status request for them.
+ */
+export function mapDeviceStatesFromResponse(raw: unknown): Map<string, DeviceState> {
+  const states = new Map<string, DeviceState>();
+  if (!raw || typeof raw !== 'object') {
+    return states;
+  }
+
+  for (const device of mapDevicesFromResponse(raw)) {
+    const parameters = device.metadata?.parameters;
+    if (!device.id || !parameters || typeof parameters !== 'object') {
+      continue;
+    }
+    states.set(device.id, mapDeviceState(device.metadata, device));
+  }
+
+  return states;
+}
+
 export interface CapabilityPlan {
   capabilities: string[];
 }
@@ -228,6 +543,24 @@ export function buildCapabilityPlan(device: ComfortDevice): CapabilityPlan {
   if (device.features.supportsSwingVertical || device.features.supportsSwingHorizontal) {
     capabilities.add('swing_mode');
   }
+  if (device.features.supportsSwingVertical) {
+    capabilities.add('vane_vertical');
+  }
+  if (device.features.supportsSwingHorizontal) {
+    capabilities.add('vane_horizontal');
+  }
+  if (device.features.supportsEcoMode) {
+    capabilities.add('eco_mode');
+  }
+  if (device.features.supportsNanoe) {
+    capabilities.add('nanoe');
+  }
+  if (device.features.supportsEcoNavi) {
+    capabilities.add('eco_navi');
+  }
+  if (device.features.supportsInsideCleaning) {
+    capabilities.add('inside_cleaning');
+  }
 
   capabilities.add('measure_temperature');
 
@@ -255,9 +588,11 @@ export function createWritePayload(
     payload.operationMode = MODE_REVERSE_MAP[patch.thermostatMode];
   }
 
-  if (patch.targetTemperature !== undefined) {
-    const min = patch.minTemperature ?? currentState?.minTemperature;
-    const max = patch.maxTemperature ?? currentState?.maxTemperature;
+  const limits = { ...currentState, ...patch };
+  const mode = patch.thermostatMode ?? currentState?.thermostatMode;
+  if (patch.targetTemperature !== undefined && hasSetpoint(limits, mode)) {
+    // Clamped to the range of the mode the unit runs after this write.
+    const { min, max } = getTemperatureRange(limits, mode);
     payload.targetTemp = clamp(patch.targetTemperature, min, max);
   }
 
@@ -265,28 +600,119 @@ export function createWritePayload(
     payload.fanSpeed = FAN_SPEED_REVERSE_MAP[patch.fanSpeed];
   }
 
-  if (patch.swingMode) {
-    switch (patch.swingMode) {
-      case 'off':
-        payload.airSwingUD = 0;
-        payload.airSwingLR = 0;
-        break;
-      case 'vertical':
-        payload.airSwingUD = 1;
-        payload.airSwingLR = 0;
-        break;
-      case 'horizontal':
-        payload.airSwingUD = 0;
-        payload.airSwingLR = 1;
-        break;
-      case 'both':
-        payload.airSwingUD = 1;
-        payload.airSwingLR = 1;
-        break;
-      default:
-        break;
+  if (patch.ecoMode) {
+    payload.ecoMode = ECO_MODE_REVERSE_MAP[patch.ecoMode];
+  }
+
+  if (patch.nanoe !== undefined) {
+    payload.nanoe = patch.nanoe ? TOGGLE_ON : TOGGLE_OFF;
+  }
+
+  if (patch.ecoNavi !== undefined) {
+    payload.ecoNavi = patch.ecoNavi ? TOGGLE_ON : TOGGLE_OFF;
+  }
+
+  if (patch.insideCleaning !== undefined) {
+    payload.insideCleaning = patch.insideCleaning ? TOGGLE_ON : TOGGLE_OFF;
+  }
+
+  if (patch.swingMode || patch.verticalVane || patch.horizontalVane) {
+    // An explicit vane position wins over the swing mode; an axis the patch leaves alone keeps
+    // its current automatic swing.
+    let verticalAuto = currentState?.verticalVane === 'auto';
+    let horizontalAuto = currentState?.horizontalVane === 'auto';
+    if (patch.swingMode) {
+      verticalAuto = swingsVertically(patch.swingMode);
+      horizontalAuto = swingsHorizontally(patch.swingMode);
+    }
+    if (patch.verticalVane) {
+      verticalAuto = patch.verticalVane === 'auto';
+    }
+    if (patch.horizontalVane) {
+      horizontalAuto = patch.horizontalVane === 'auto';
+    }
+
+    if (verticalAuto && horizontalAuto) {
+      payload.fanAutoMode = AUTO_SWING_BOTH;
+    } else if (verticalAuto) {
+      payload.fanAutoMode = AUTO_SWING_VERTICAL;
+    } else if (horizontalAuto) {
+      payload.fanAutoMode = AUTO_SWING_HORIZONTAL;
+    } else {
+      payload.fanAutoMode = AUTO_SWING_OFF;
+    }
+
+    if (patch.verticalVane && patch.verticalVane !== 'auto') {
+      payload.airSwingUD = VERTICAL_VANE_REVERSE_MAP[patch.verticalVane];
+    }
+    if (patch.horizontalVane && patch.horizontalVane !== 'auto') {
+      payload.airSwingLR = HORIZONTAL_VANE_REVERSE_MAP[patch.horizontalVane];
     }
   }
 
   return payload;
 }
+
+/**
+ * Lists the settings of a patch the unit does not support, as messages suitable for the user.
+ * An empty list means the patch can be sent. The setpoint is checked against the range of the
+ * mode the patch selects, or else `currentMode`, the mode the unit runs when the patch arrives.
+ */
+export function findUnsupportedSettings(
+  patch: Partial<DeviceState>,
+  features: ComfortDeviceFeatures,
+  currentMode?: ThermostatMode,
+): string[] {
+  const problems: string[] = [];
+
+  if (patch.targetTemperature !== undefined) {
+    const mode = patch.thermostatMode ?? currentMode;
+    const { min, max, offset } = getTemperatureRange(features, mode);
+    if (!hasSetpoint(features, mode)) {
+      problems.push(`The unit has no temperature setpoint in ${mode} mode.`);
+    } else if ((min !== undefined && patch.targetTemperature < min)
+      || (max !== undefined && patch.targetTemperature > max)) {
+      const inMode = mode && features.temperatureRanges?.[mode] ? ` in ${mode} mode` : '';
+      problems.push(
+        `Temperature${offset ? ' offset' : ''} ${patch.targetTemperature} °C is outside the unit's range of `
+        + `${min ?? '?'}–${max ?? '?'} °C${inMode}.`,
+      );
+    }
+  }
+
+  if (patch.fanSpeed && features.fanSpeeds.length > 0 && !features.fanSpeeds.includes(patch.fanSpeed)) {
+    problems.push(`Fan speed "${patch.fanSpeed}" is not supported by this unit (supported: ${features.fanSpeeds.join(', ')}).`);
+  }
+
+  if (patch.swingMode) {
+    const vertical = patch.swingMode === 'vertical' || patch.swingMode === 'both';
+    const horizontal = patch.swingMode === 'horizontal' || patch.swingMode === 'both';
+    const anySwing = features.supportsSwingVertical || features.supportsSwingHorizontal;
+    if ((vertical && !features.supportsSwingVertical)
+      || (horizontal && !features.supportsSwingHorizontal)
+      || !anySwing) {
+      problems.push(`Swing mode "${patch.swingMode}" is not supported by this unit.`);
+    }
+  }
+  if (patch.verticalVane && !features.supportsSwingVertical) {
+    problems.push('This unit has no adjustable vertical vane.');
+  }
+  if (patch.horizontalVane && !features.supportsSwingHorizontal) {
+    problems.push('This unit has no adjustable horizontal vane.');
+  }
+
+  if (patch.ecoMode && !features.supportsEcoMode) {
+    problems.push(`Eco mode "${patch.ecoMode}" is not supported by this unit.`);
+  }
+  if (patch.nanoe !== undefined && !features.supportsNanoe) {
+    problems.push('This unit does not have nanoe.');
+  }
+  if (patch.ecoNavi !== undefined && !features.supportsEcoNavi) {
+    problems.push('This unit does not have ecoNavi.');
+  }
+  if (patch.insideCleaning !== undefined && !features.supportsInsideCleaning) {
+    problems.push('This unit does not have inside cleaning.');
+  }
+
+  return problems;
+}
@@ -1,30 +1,357 @@
-import { AuthTokens, ComfortDevice, DeviceState, ProviderLoginRequest } from '../../types';
-import { Provider } from './Provider';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { createHash, randomBytes } from 'node:crypto';
+import { URL, URLSearchParams } from 'node:url';
+import { AuthTokens, ProviderLoginRequest } from '../../types';
+import { ComfortCloudClient, ComfortCloudClientOptions } from './ComfortCloudClient';
+import { AuthenticationFailedError, toComfortCloudError } from './Errors';
+
+const DEFAULT_AUTH_BASE_URL = 'https://authglb.digital.panasonic.com';
+const DEFAULT_CLIENT_ID = 'Xmy6xIYIitMxngjB2rHvlm6HSDNnaMJx';
+const DEFAULT_REDIRECT_URI = 'panasonic-iot-cfc://authglb.digital.panasonic.com/android/com.panasonic.ACC/callback';
+const DEFAULT_AUTH0_CLIENT = 'eyJuYW1lIjoiQXV0aDAuQW5kcm9pZCIsImVudiI6eyJhbmRyb2lkIjoiMzAifSwidmVyc2lvbiI6IjIuOS4zIn0=';
+const AUTH_USER_AGENT = 'okhttp/4.10.0';
+const SCOPE = 'openid offline_access comfortcloud.control a2w.control';
+
+/** Token endpoint response; the field names are defined by the OAuth2 specification. */
+interface TokenResponse {
+  'access_token'?: string;
+  'refresh_token'?: string;
+  'id_token'?: string;
+  'expires_in'?: number;
+}
+
+interface AccLoginResponse {
+  clientId?: string;
+}
+
+export interface OAuth2ClientOptions extends ComfortCloudClientOptions {
+  authBaseUrl?: string;
+  /** OAuth2 client id of the Comfort Cloud app registered with Panasonic's identity provider. */
+  clientId?: string;
+  redirectUri?: string;
+}
+
+const base64Url = (buffer: Buffer): string => buffer
+  .toString('base64')
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_')
+  .replace(/=+$/, '');
+
+const decodeHtmlEntities = (value: string): string => value
+  .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_match, dec: string) => String.fromCharCode(Number(dec)))
+  .replace(/&quot;/g, '"')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+const readAttribute = (tag: string, name: string): string | undefined => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(tag);
+  if (!match) {
+    return undefined;
+  }
+  return decodeHtmlEntities(match[2] ?? match[3] ?? '');
+};
 
 /**
- * Placeholder for a potential future OAuth2 based integration if Panasonic exposes official APIs.
- * The current Comfort Cloud platform only provides credential-based authentication, so this class simply
- * throws informative errors when used.
+ * Extracts the hidden form fields the identity provider returns after a successful
+ * username/password login. They have to be posted back to `/login/callback` as-is.
  */
-export class OAuth2Client implements Provider {
-  async login(_credentials: ProviderLoginRequest): Promise<AuthTokens> {
-    throw new Error('OAuth2 flow is not implemented for Panasonic Comfort Cloud.');
+const parseHiddenInputs = (html: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (const tag of html.match(/<input\b[^>]*>/gi) ?? []) {
+    if (readAttribute(tag, 'type')?.toLowerCase() !== 'hidden') {
+      continue;
+    }
+    const name = readAttribute(tag, 'name');
+    if (name) {
+      fields[name] = readAttribute(tag, 'value') ?? '';
+    }
+  }
+  return fields;
+};
+
+const decodeJwtSubject = (token: string | undefined): string | undefined => {
+  const payload = token?.split('.')[1];
+  if (!payload) {
+    return undefined;
   }
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64').toString('utf8')) as { sub?: unknown };
+    return typeof decoded.sub === 'string' ? decoded.sub : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Comfort Cloud client for accounts that were migrated to Panasonic ID. Authentication uses the
+ * OAuth2 authorization-code flow with PKCE against Panasonic's identity provider, after which the
+ * access token is registered with Comfort Cloud through `/auth/v2/login`. Device and state calls are
+ * shared with the legacy {@link ComfortCloudClient}; only the authorization headers differ.
+ */
+export class OAuth2Client extends ComfortCloudClient {
+  private readonly authHttp: AxiosInstance;
+  private readonly authBaseUrl: string;
+  private readonly oauthClientId: string;
+  private readonly redirectUri: string;
+  private readonly cookies = new Map<string, string>();
+
+  constructor(options: OAuth2ClientOptions) {
+    super(options);
+    this.authBaseUrl = options.authBaseUrl ?? DEFAULT_AUTH_BASE_URL;
+    this.oauthClientId = options.clientId ?? DEFAULT_CLIENT_ID;
+    this.redirectUri = options.redirectUri ?? DEFAULT_REDIRECT_URI;
+
+    this.authHttp = axios.create({
+      baseURL: this.authBaseUrl,
+      timeout: 20000,
+      maxRedirects: 0,
+      validateStatus: (status) => status >= 200 && status < 400,
+      headers: {
+        'User-Agent': AUTH_USER_AGENT,
+        'Auth0-Client': DEFAULT_AUTH0_CLIENT,
+      },
+    });
+  }
+
+  async login(credentials: ProviderLoginRequest): Promise<AuthTokens> {
+    this.cookies.clear();
+    const verifier = base64Url(randomBytes(32));
+    const challenge = base64Url(createHash('sha256').update(verifier).digest());
+
+    const code = await this.authorize(credentials, challenge);
+    const tokenResponse = await this.authRequest<TokenResponse>({
+      url: '/oauth/token',
+      method: 'POST',
+      data: {
+        scope: 'openid',
+        client_id: this.oauthClientId,
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.redirectUri,
+        code_verifier: verifier,
+      },
+    });
+
+    const tokens: AuthTokens = { ...this.parseTokenResponse(tokenResponse.data), email: credentials.email };
+    tokens.clientId = await this.registerAccessToken(tokens);
+    await this.setTokens(tokens);
+    this.logDebug('Authenticated Comfort Cloud account %s through OAuth2', tokens.userId);
+    return tokens;
+  }
+
+  async refresh(tokens: AuthTokens): Promise<AuthTokens> {
+    const response = await this.authRequest<TokenResponse>({
+      url: '/oauth/token',
+      method: 'POST',
+      data: {
+        scope: SCOPE,
+        client_id: this.oauthClientId,
+        grant_type: 'refresh_token',
+        refresh_token: tokens.refreshToken,
+      },
+    });
 
-  async refresh(_tokens: AuthTokens): Promise<AuthTokens> {
-    throw new Error('OAuth2 flow is not implemented for Panasonic Comfort Cloud.');
+    // Panasonic rotates refresh tokens, the previous one is invalid once a new one is issued.
+    const nextTokens = this.parseTokenResponse(response.data, tokens);
+    if (!nextTokens.clientId) {
+      nextTokens.clientId = await this.registerAccessToken(nextTokens);
+    }
+    await this.setTokens(nextTokens);
+    this.logDebug('Refreshed Comfort Cloud OAuth2 token');
+    return nextTokens;
   }
 
-  async listDevices(): Promise<ComfortDevice[]> {
-    throw new Error('OAuth2 flow is not implemented for Panasonic Comfort Cloud.');
+  protected applyAuthHeaders(headers: Record<string, unknown>, tokens: AuthTokens): void {
+    headers['X-User-Authorization-V2'] = `Bearer ${tokens.accessToken}`;
+    if (tokens.clientId) {
+      headers['X-Client-Id'] = tokens.clientId;
+    }
   }
 
-  async readState(_deviceId: string): Promise<DeviceState> {
-    throw new Error('OAuth2 flow is not implemented for Panasonic Comfort Cloud.');
+  protected formatLog(message: string): string {
+    return `[OAuth2Client] ${message}`;
+  }
+
+  /**
+   * Runs the browser part of the authorization-code flow and returns the authorization code
+   * delivered to the app's redirect URI.
+   */
+  private async authorize(credentials: ProviderLoginRequest, challenge: string): Promise<string> {
+    const authorizeResponse = await this.authRequest({
+      url: '/authorize',
+      method: 'GET',
+      params: {
+        scope: SCOPE,
+        audience: this.getAudience(),
+        protocol: 'oauth2',
+        response_type: 'code',
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+        auth0Client: DEFAULT_AUTH0_CLIENT,
+        client_id: this.oauthClientId,
+        redirect_uri: this.redirectUri,
+        state: base64Url(randomBytes(16)),
+      },
+    });
+
+    const loginLocation = this.getRedirectLocation(authorizeResponse);
+    const existingCode = this.readCodeFromLocation(loginLocation);
+    if (existingCode) {
+      return existingCode;
+    }
+
+    const state = loginLocation.searchParams.get('state');
+    if (!state) {
+      throw new AuthenticationFailedError('Comfort Cloud OAuth2 login did not return a login state');
+    }
+
+    await this.authRequest({ url: loginLocation.toString(), method: 'GET' });
+
+    const loginResponse = await this.authRequest<string>({
+      url: '/usernamepassword/login',
+      method: 'POST',
+      responseType: 'text',
+      data: {
+        client_id: this.oauthClientId,
+        redirect_uri: this.redirectUri,
+        tenant: 'pdpauthglb-a1',
+        response_type: 'code',
+        scope: SCOPE,
+        audience: this.getAudience(),
+        _csrf: this.cookies.get('_csrf'),
+        state,
+        _intstate: 'deprecated',
+        username: credentials.email,
+        password: credentials.password,
+        lang: 'en',
+        connection: 'PanasonicID-Authentication',
+      },
+    });
+
+    const callbackFields = parseHiddenInputs(String(loginResponse.data ?? ''));
+    if (!Object.keys(callbackFields).length) {
+      throw new AuthenticationFailedError('Comfort Cloud OAuth2 login was rejected');
+    }
+
+    const callbackResponse = await this.authRequest({
+      url: '/login/callback',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: new URLSearchParams(callbackFields).toString(),
+    });
+
+    const resumeResponse = await this.authRequest({
+      url: this.getRedirectLocation(callbackResponse).toString(),
+      method: 'GET',
+    });
+
+    const code = this.readCodeFromLocation(this.getRedirectLocation(resumeResponse));
+    if (!code) {
+      throw new AuthenticationFailedError('Comfort Cloud OAuth2 login did not return an authorization code');
+    }
+    return code;
+  }
+
+  /**
+   * Registers a freshly issued access token with Comfort Cloud and returns the client id that has
+   * to accompany every subsequent API call.
+   */
+  private async registerAccessToken(tokens: AuthTokens): Promise<string | undefined> {
+    const response = await this.request<AccLoginResponse>(
+      {
+        url: '/auth/v2/login',
+        method: 'POST',
+        headers: {
+          'X-User-Authorization-V2': `Bearer ${tokens.accessToken}`,
+        },
+        data: {
+          language: 0,
+        },
+      },
+      { requiresAuth: false },
+    );
+    return response?.clientId;
+  }
+
+  private async authRequest<T = unknown>(
+    config: Parameters<AxiosInstance['request']>[0],
+  ): Promise<AxiosResponse<T>> {
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string> | undefined) };
+    if (this.cookies.size) {
+      headers.Cookie = Array.from(this.cookies.entries())
+        .map(([name, value]) => `${name}=${value}`)
+        .join('; ');
+    }
+
+    try {
+      const response = await this.authHttp.request<T>({ ...config, headers });
+      this.storeCookies(response.headers['set-cookie']);
+      return response;
+    } catch (error) {
+      this.logError(
+        'Auth request %s %s failed: %s',
+        String(config.method ?? 'GET').toUpperCase(),
+        String(config.url ?? 'unknown'),
+        (error as Error).message,
+      );
+      throw toComfortCloudError(error);
+    }
+  }
+
+  private storeCookies(setCookie: string[] | undefined): void {
+    for (const entry of setCookie ?? []) {
+      const [pair] = entry.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    }
+  }
+
+  private getRedirectLocation(response: AxiosResponse): URL {
+    const { location } = response.headers;
+    if (typeof location !== 'string' || !location) {
+      throw new AuthenticationFailedError(
+        `Comfort Cloud OAuth2 login expected a redirect but received HTTP ${response.status}`,
+        { status: response.status },
+      );
+    }
+    return new URL(location, this.authBaseUrl);
+  }
+
+  private readCodeFromLocation(location: URL): string | null {
+    if (!location.toString().startsWith(this.redirectUri)) {
+      return null;
+    }
+    return location.searchParams.get('code');
+  }
+
+  private parseTokenResponse(response: TokenResponse, previous?: AuthTokens): AuthTokens {
+    const {
+      access_token: accessToken,
+      id_token: idToken,
+      expires_in: expiresIn = 3600,
+    } = response;
+    const refreshToken = response['refresh_token'] ?? previous?.refreshToken;
+    if (!accessToken || !refreshToken) {
+      throw new AuthenticationFailedError('Comfort Cloud authentication failed');
+    }
+
+    return {
+      accessToken,
+      refreshToken,
+      userId: decodeJwtSubject(idToken) ?? decodeJwtSubject(accessToken) ?? previous?.userId ?? 'unknown',
+      expiresAt: Date.now() + Math.max(expiresIn - 60, 60) * 1000,
+      provider: 'oauth2',
+      clientId: previous?.clientId,
+      email: previous?.email,
+    };
   }
 
-  async writeState(_deviceId: string, _patch: Partial<DeviceState>): Promise<DeviceState> {
-    throw new Error('OAuth2 flow is not implemented for Panasonic Comfort Cloud.');
+  private getAudience(): string {
+    return `https://digital.panasonic.com/${this.oauthClientId}/api/v1/`;
   }
 }
 
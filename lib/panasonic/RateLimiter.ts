@@ -1,52 +1,285 @@
+import { RequestCancelledError } from './Errors';
+
+/**
+ * Priority classes, highest first. Environment and extended polls share the lowest lane.
+ */
+export type RequestPriority = 'user' | 'pairing' | 'essential' | 'environment' | 'extended';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  user: 0,
+  pairing: 1,
+  essential: 2,
+  environment: 3,
+  extended: 3,
+};
+
 export interface RateLimiterOptions {
   maxConcurrent?: number;
   minInterval?: number;
   maxQueueSize?: number;
+  /** Timer functions, such as `homey.setTimeout`. Default to the global ones. */
+  setTimeout?: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimeout?: (timer: NodeJS.Timeout) => void;
   logger?: (message: string, ...args: unknown[]) => void;
 }
 
-interface QueueItem {
-  fn: () => Promise<unknown>;
+export interface ScheduleOptions {
+  /** Lane of the task. Defaults to `user`. */
+  priority?: RequestPriority;
+  /**
+   * Identifies identical reads. A task scheduled while another task with the same key is queued or
+   * running shares that task's result instead of being queued again. Each caller keeps its own
+   * timeout and signal while the task is queued; it is only dropped once all of its callers gave up.
+   */
+  key?: string;
+  /** Maximum time (milliseconds) the caller waits for the task to start before it gives up. */
+  timeout?: number;
+  /** Gives up waiting when aborted before the task started. */
+  signal?: AbortSignal;
+}
+
+export interface RateLimiterStats {
+  active: number;
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  started: number;
+  deduplicated: number;
+  /** Average and maximum time (milliseconds) tasks waited in the queue before they started. */
+  averageWait: number;
+  maxWait: number;
+  rejected: {
+    queueFull: number;
+    timedOut: number;
+    cancelled: number;
+  };
+}
+
+/** A caller waiting for the result of a queued task. */
+interface Waiter {
+  priority: RequestPriority;
   resolve: (value: unknown) => void;
   reject: (reason: unknown) => void;
+  cleanup: Array<() => void>;
+}
+
+interface QueueItem {
+  fn: (priority: RequestPriority) => Promise<unknown>;
+  /** Highest priority of the waiting callers. */
+  priority: RequestPriority;
+  key?: string;
+  enqueuedAt: number;
+  waiters: Waiter[];
 }
 
 /**
- * Minimal rate limiter with configurable concurrency and delay between tasks.
+ * Rate limiter with configurable concurrency and delay between tasks. Queued tasks are started by
+ * priority lane, first-in first-out within a lane.
  */
 export class RateLimiter {
   private readonly maxConcurrent: number;
   private readonly minInterval: number;
   private readonly maxQueueSize?: number;
+  private readonly setTimeout: (callback: () => void, ms: number) => NodeJS.Timeout;
+  private readonly clearTimeout: (timer: NodeJS.Timeout) => void;
   private readonly logger?: (message: string, ...args: unknown[]) => void;
   private readonly queue: QueueItem[] = [];
+  /** Started tasks with a key, which later callers with that key join. */
+  private readonly running = new Map<string, QueueItem>();
   private activeCount = 0;
   private lastStart = 0;
+  private timer?: NodeJS.Timeout;
+  private readonly stats = {
+    started: 0,
+    deduplicated: 0,
+    totalWait: 0,
+    maxWait: 0,
+    queueFull: 0,
+    timedOut: 0,
+    cancelled: 0,
+  };
 
   constructor(options: RateLimiterOptions = {}) {
     this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 2);
     this.minInterval = Math.max(0, options.minInterval ?? 200);
     this.maxQueueSize = options.maxQueueSize;
+    this.setTimeout = options.setTimeout ?? setTimeout;
+    this.clearTimeout = options.clearTimeout ?? clearTimeout;
     this.logger = options.logger;
   }
 
-  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * Queues the task. It receives the priority it runs with, which is the highest priority of the
+   * callers sharing it.
+   */
+  async schedule<T>(fn: (priority: RequestPriority) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const priority = options.priority ?? 'user';
+
+    if (options.signal?.aborted) {
+      this.stats.cancelled += 1;
+      throw new RequestCancelledError('aborted');
+    }
+
+    if (options.key) {
+      const pending = this.queue.find((item) => item.key === options.key) ?? this.running.get(options.key);
+      if (pending) {
+        this.stats.deduplicated += 1;
+        return this.wait<T>(pending, priority, options);
+      }
+    }
+
     if (this.maxQueueSize && this.queue.length >= this.maxQueueSize) {
+      this.stats.queueFull += 1;
       throw new Error('Rate limiter queue full');
     }
 
-    return new Promise<T>((resolve, reject) => {
-      this.queue.push({
-        fn,
-        resolve: (value: unknown) => resolve(value as T),
+    const item: QueueItem = {
+      fn,
+      priority,
+      key: options.key,
+      enqueuedAt: Date.now(),
+      waiters: [],
+    };
+    const promise = this.wait<T>(item, priority, options);
+    this.enqueue(item);
+    this.process();
+    return promise;
+  }
+
+  getStats(): RateLimiterStats {
+    const queuedByPriority: Record<RequestPriority, number> = {
+      user: 0,
+      pairing: 0,
+      essential: 0,
+      environment: 0,
+      extended: 0,
+    };
+    for (const item of this.queue) {
+      queuedByPriority[item.priority] += 1;
+    }
+
+    return {
+      active: this.activeCount,
+      queued: this.queue.length,
+      queuedByPriority,
+      started: this.stats.started,
+      deduplicated: this.stats.deduplicated,
+      averageWait: this.stats.started ? Math.round(this.stats.totalWait / this.stats.started) : 0,
+      maxWait: this.stats.maxWait,
+      rejected: {
+        queueFull: this.stats.queueFull,
+        timedOut: this.stats.timedOut,
+        cancelled: this.stats.cancelled,
+      },
+    };
+  }
+
+  private enqueue(item: QueueItem): void {
+    const rank = PRIORITY_RANK[item.priority];
+    const index = this.queue.findIndex((queued) => PRIORITY_RANK[queued.priority] > rank);
+    if (index === -1) {
+      this.queue.push(item);
+    } else {
+      this.queue.splice(index, 0, item);
+    }
+  }
+
+  /**
+   * Adds a caller to the task. The caller's timeout and signal only affect the caller itself, and
+   * only until the task starts; a caller joining a running task waits for its result.
+   */
+  private wait<T>(item: QueueItem, priority: RequestPriority, options: ScheduleOptions): Promise<T> {
+    const started = item.key !== undefined && this.running.get(item.key) === item;
+    const promise = new Promise<unknown>((resolve, reject) => {
+      const waiter: Waiter = {
+        priority,
+        resolve,
         reject,
-      });
-      this.process();
+        cleanup: [],
+      };
+      item.waiters.push(waiter);
+      if (started) {
+        return;
+      }
+
+      if (options.timeout !== undefined) {
+        const timeout = this.setTimeout(() => {
+          if (this.dropWaiter(item, waiter)) {
+            this.stats.timedOut += 1;
+            this.logger?.('[RateLimiter.ts] Dropped %s task after waiting %dms', priority, options.timeout);
+            reject(new RequestCancelledError('timeout'));
+          }
+        }, options.timeout);
+        waiter.cleanup.push(() => this.clearTimeout(timeout));
+      }
+
+      if (options.signal) {
+        const { signal } = options;
+        const onAbort = () => {
+          if (this.dropWaiter(item, waiter)) {
+            this.stats.cancelled += 1;
+            reject(new RequestCancelledError('aborted'));
+          }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.cleanup.push(() => signal.removeEventListener('abort', onAbort));
+      }
     });
+    this.reprioritize(item);
+    return promise as Promise<T>;
+  }
+
+  /**
+   * Removes a caller from a task that has not started yet; the task itself is dropped once it has
+   * no callers left. Returns `false` when the task already started.
+   */
+  private dropWaiter(item: QueueItem, waiter: Waiter): boolean {
+    if (!this.queue.includes(item)) {
+      return false;
+    }
+    item.waiters = item.waiters.filter((other) => other !== waiter);
+    for (const cleanup of waiter.cleanup) {
+      cleanup();
+    }
+    if (item.waiters.length === 0) {
+      this.remove(item);
+    } else {
+      this.reprioritize(item);
+    }
+    return true;
+  }
+
+  /**
+   * Moves the task to the lane of its most urgent caller.
+   */
+  private reprioritize(item: QueueItem): void {
+    let priority: RequestPriority | undefined;
+    for (const waiter of item.waiters) {
+      if (priority === undefined || PRIORITY_RANK[waiter.priority] < PRIORITY_RANK[priority]) {
+        ({ priority } = waiter);
+      }
+    }
+    if (priority === undefined || priority === item.priority) {
+      return;
+    }
+    if (this.remove(item)) {
+      item.priority = priority;
+      this.enqueue(item);
+    } else {
+      item.priority = priority;
+    }
+  }
+
+  private remove(item: QueueItem): boolean {
+    const index = this.queue.indexOf(item);
+    if (index === -1) {
+      return false;
+    }
+    this.queue.splice(index, 1);
+    return true;
   }
 
   private process(): void {
-    if (!this.queue.length) {
+    if (!this.queue.length || this.timer) {
       return;
     }
 
@@ -57,7 +290,10 @@ export class RateLimiter {
     const now = Date.now();
     const wait = Math.max(0, this.minInterval - (now - this.lastStart));
     if (wait > 0) {
-      setTimeout(() => this.process(), wait);
+      this.timer = this.setTimeout(() => {
+        this.timer = undefined;
+        this.process();
+      }, wait);
       return;
     }
 
@@ -68,18 +304,37 @@ export class RateLimiter {
 
     this.activeCount += 1;
     this.lastStart = Date.now();
+    const waited = this.lastStart - item.enqueuedAt;
+    this.stats.started += 1;
+    this.stats.totalWait += waited;
+    this.stats.maxWait = Math.max(this.stats.maxWait, waited);
+    for (const waiter of item.waiters) {
+      for (const cleanup of waiter.cleanup) {
+        cleanup();
+      }
+    }
+    if (item.key !== undefined) {
+      this.running.set(item.key, item);
+    }
 
-    item.fn()
+    item.fn(item.priority)
+      .finally(() => {
+        if (item.key !== undefined && this.running.get(item.key) === item) {
+          this.running.delete(item.key);
+        }
+      })
       .then((result) => {
-        item.resolve(result);
+        item.waiters.forEach((waiter) => waiter.resolve(result));
       })
       .catch((error) => {
-        item.reject(error);
+        item.waiters.forEach((waiter) => waiter.reject(error));
       })
       .finally(() => {
         this.activeCount -= 1;
         this.process();
       });
+
+    this.process();
   }
 }
 
@@ -0,0 +1,171 @@
+import { TokenStore } from './Provider';
+import type { RequestPriority } from './RateLimiter';
+
+export interface RequestBudgetState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RequestBudgetSnapshot {
+  dailyLimit: number;
+  remaining: number;
+  /** Requests kept for user commands once polling has used up the rest of the budget. */
+  reserved: number;
+  /** Factor applied to the configured poll intervals. */
+  stretch: number;
+}
+
+export interface RequestBudgetOptions {
+  store: TokenStore<RequestBudgetState>;
+  /** Maximum number of requests per 24 hours. Read on every refill so setting changes apply directly. */
+  getDailyLimit: () => number;
+  /** Share of the daily limit only user commands may use. Defaults to 10%. */
+  reserveRatio?: number;
+  /** Invoked when the poll interval stretch factor changes. */
+  onStretchChanged?: (stretch: number) => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+/** Remaining share of the pollable budget below which the poll intervals are stretched. */
+const STRETCH_THRESHOLD = 0.25;
+const MAX_STRETCH = 8;
+/** Consumed requests after which the state is written to settings again. */
+const PERSIST_EVERY = 10;
+
+export const isRequestBudgetState = (value: unknown): value is RequestBudgetState => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<RequestBudgetState>;
+  return typeof candidate.tokens === 'number' && typeof candidate.updatedAt === 'number';
+};
+
+/**
+ * Account-wide daily request budget. Implemented as a token bucket holding up to the daily limit
+ * and refilling continuously over 24 hours; the bucket is persisted so restarts do not reset it.
+ * Polls stop before the bucket runs dry, leaving a reserve for user commands, and the poll
+ * intervals stretch as the budget runs low.
+ */
+export class RequestBudget {
+  private readonly store: TokenStore<RequestBudgetState>;
+  private readonly getDailyLimit: () => number;
+  private readonly reserveRatio: number;
+  private readonly onStretchChanged?: (stretch: number) => void;
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private state: RequestBudgetState = { tokens: Number.POSITIVE_INFINITY, updatedAt: Date.now() };
+  private unsaved = 0;
+  private stretch = 1;
+
+  constructor(options: RequestBudgetOptions) {
+    this.store = options.store;
+    this.getDailyLimit = options.getDailyLimit;
+    this.reserveRatio = Math.min(Math.max(options.reserveRatio ?? 0.1, 0), 1);
+    this.onStretchChanged = options.onStretchChanged;
+    this.logger = options.logger;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = await this.store.get();
+      this.state = stored ?? { tokens: this.getDailyLimit(), updatedAt: Date.now() };
+    } catch (error) {
+      this.logger?.('[RequestBudget.ts] load -> store.get failed: %s', (error as Error).message);
+    }
+    this.refill();
+    this.stretch = this.computeStretch();
+  }
+
+  /**
+   * Takes one request from the budget. Returns `false` when the request has to be skipped; only
+   * the `user` lane may use the reserve.
+   */
+  tryConsume(priority: RequestPriority): boolean {
+    this.refill();
+    const floor = priority === 'user' ? 0 : this.getReserve();
+    if (this.state.tokens - 1 < floor) {
+      this.updateStretch();
+      return false;
+    }
+
+    this.state.tokens -= 1;
+    this.unsaved += 1;
+    if (this.unsaved >= PERSIST_EVERY) {
+      this.persist();
+    }
+    this.updateStretch();
+    return true;
+  }
+
+  /**
+   * Factor by which the poll intervals are multiplied; 1 while enough budget is left.
+   */
+  getStretchFactor(): number {
+    return this.stretch;
+  }
+
+  getSnapshot(): RequestBudgetSnapshot {
+    this.refill();
+    return {
+      dailyLimit: this.getDailyLimit(),
+      remaining: Math.floor(this.state.tokens),
+      reserved: this.getReserve(),
+      stretch: this.stretch,
+    };
+  }
+
+  /**
+   * Writes unsaved consumption to the store, e.g. before the app shuts down.
+   */
+  persist(): void {
+    this.unsaved = 0;
+    this.store.set({ ...this.state }).catch((error: Error) => {
+      this.logger?.('[RequestBudget.ts] persist -> store.set failed: %s', error.message);
+    });
+  }
+
+  private refill(): void {
+    const limit = Math.max(1, this.getDailyLimit());
+    const now = Date.now();
+    const elapsed = Math.max(0, now - this.state.updatedAt);
+    this.state = {
+      tokens: Math.min(limit, this.state.tokens + (elapsed / DAY) * limit),
+      updatedAt: now,
+    };
+  }
+
+  private getReserve(): number {
+    return Math.ceil(this.getDailyLimit() * this.reserveRatio);
+  }
+
+  private computeStretch(): number {
+    const pollable = this.getDailyLimit() - this.getReserve();
+    const threshold = pollable * STRETCH_THRESHOLD;
+    const available = this.state.tokens - this.getReserve();
+    if (pollable <= 0 || available >= threshold) {
+      return 1;
+    }
+    return Math.min(MAX_STRETCH, Math.ceil(threshold / Math.max(available, threshold / MAX_STRETCH)));
+  }
+
+  private updateStretch(): void {
+    const stretch = this.computeStretch();
+    if (stretch === this.stretch) {
+      return;
+    }
+
+    this.stretch = stretch;
+    this.logger?.(
+      '[RequestBudget.ts] %d requests left today, poll intervals stretched x%d',
+      Math.floor(this.state.tokens),
+      stretch,
+    );
+    try {
+      this.onStretchChanged?.(stretch);
+    } catch (error) {
+      this.logger?.('[RequestBudget.ts] Stretch listener failed: %s', (error as Error).message);
+    }
+  }
+}
+
+export default RequestBudget;
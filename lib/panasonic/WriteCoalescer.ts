@@ -0,0 +1,148 @@
+import { DeviceState } from '../../types';
+
+export interface WriteCoalescerOptions {
+  /** Sends one merged patch to the unit and resolves with the state read afterwards. */
+  write: (patch: Partial<DeviceState>) => Promise<DeviceState>;
+  /** Quiet period (milliseconds) after the last change before the merged patch is sent. */
+  window?: number;
+  /** Upper bound (milliseconds) for delaying the first change of a batch while changes keep coming. */
+  maxDelay?: number;
+  /** Timer functions, such as `homey.setTimeout`. Default to the global ones. */
+  setTimeout?: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimeout?: (timer: NodeJS.Timeout) => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+interface Waiter {
+  resolve: (state: DeviceState) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Batch {
+  patch: Partial<DeviceState>;
+  waiters: Waiter[];
+  startedAt: number;
+}
+
+/**
+ * Merges changes made in quick succession (a slider drag, several flow actions in a row) into a
+ * single control request per device. Everyone waiting on a change of the batch receives the same
+ * result. Batches are sent one after another, so a change arriving while a write is in flight
+ * goes out with the next batch.
+ */
+export class WriteCoalescer {
+  private readonly write: (patch: Partial<DeviceState>) => Promise<DeviceState>;
+  private readonly window: number;
+  private readonly maxDelay: number;
+  private readonly setTimeout: (callback: () => void, ms: number) => NodeJS.Timeout;
+  private readonly clearTimeout: (timer: NodeJS.Timeout) => void;
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private batch?: Batch;
+  /** Batches handed to `flush` that have not been written yet, oldest first. */
+  private readonly outgoing: Batch[] = [];
+  private timer?: NodeJS.Timeout;
+  private inFlight?: Promise<void>;
+
+  constructor(options: WriteCoalescerOptions) {
+    this.write = options.write;
+    this.window = Math.max(0, options.window ?? 400);
+    this.maxDelay = Math.max(this.window, options.maxDelay ?? 2000);
+    this.setTimeout = options.setTimeout ?? setTimeout;
+    this.clearTimeout = options.clearTimeout ?? clearTimeout;
+    this.logger = options.logger;
+  }
+
+  async submit(patch: Partial<DeviceState>): Promise<DeviceState> {
+    return new Promise<DeviceState>((resolve, reject) => {
+      if (!this.batch) {
+        this.batch = { patch: {}, waiters: [], startedAt: Date.now() };
+      }
+      this.batch.patch = { ...this.batch.patch, ...patch };
+      this.batch.waiters.push({ resolve, reject });
+      this.arm();
+    });
+  }
+
+  /**
+   * Changes that have not been written yet, merged in the order they are sent.
+   */
+  getPendingPatch(): Partial<DeviceState> {
+    return Object.assign({}, ...this.outgoing.map((batch) => batch.patch), this.batch?.patch);
+  }
+
+  /**
+   * Sends the pending batch right away.
+   */
+  async flush(): Promise<void> {
+    this.clearTimer();
+    const { batch } = this;
+    if (!batch) {
+      return;
+    }
+    this.batch = undefined;
+    this.outgoing.push(batch);
+
+    const previous = this.inFlight ?? Promise.resolve();
+    const current = previous.then(() => this.send(batch));
+    this.inFlight = current;
+    try {
+      await current;
+    } finally {
+      if (this.inFlight === current) {
+        this.inFlight = undefined;
+      }
+    }
+  }
+
+  /**
+   * Drops the pending batch, rejecting everyone waiting on it.
+   */
+  cancel(reason: Error): void {
+    this.clearTimer();
+    const { batch } = this;
+    this.batch = undefined;
+    for (const waiter of batch?.waiters ?? []) {
+      waiter.reject(reason);
+    }
+  }
+
+  private arm(): void {
+    this.clearTimer();
+    const { batch } = this;
+    if (!batch) {
+      return;
+    }
+    const remaining = batch.startedAt + this.maxDelay - Date.now();
+    this.timer = this.setTimeout(() => {
+      this.timer = undefined;
+      this.flush().catch(() => undefined);
+    }, Math.max(0, Math.min(this.window, remaining)));
+  }
+
+  private async send(batch: Batch): Promise<void> {
+    if (batch.waiters.length > 1) {
+      this.logger?.('[WriteCoalescer.ts] Sending %d merged changes: %j', batch.waiters.length, batch.patch);
+    }
+    try {
+      const state = await this.write(batch.patch);
+      for (const waiter of batch.waiters) {
+        waiter.resolve(state);
+      }
+    } catch (error) {
+      for (const waiter of batch.waiters) {
+        waiter.reject(error);
+      }
+    } finally {
+      this.outgoing.splice(this.outgoing.indexOf(batch), 1);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      this.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+export default WriteCoalescer;
@@ -0,0 +1,13 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class ApiVersionRejectedError extends ComfortCloudError {
+  constructor(
+    message = 'Comfort Cloud rejected the app version used by this integration.',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'ApiVersionRejectedError';
+  }
+}
+
+export default ApiVersionRejectedError;
@@ -0,0 +1,13 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class AuthenticationFailedError extends ComfortCloudError {
+  constructor(
+    message = 'Comfort Cloud rejected the login. Check the account credentials.',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'AuthenticationFailedError';
+  }
+}
+
+export default AuthenticationFailedError;
@@ -0,0 +1,17 @@
+import { ServerUnavailableError } from './ServerUnavailableError';
+
+/**
+ * Raised without contacting Comfort Cloud while the account-wide circuit breaker is open.
+ */
+export class CircuitOpenError extends ServerUnavailableError {
+  /** Time (epoch milliseconds) at which the next probe request is allowed. */
+  readonly retryAt: number;
+
+  constructor(retryAt: number, message = 'Comfort Cloud is unavailable. Requests are paused until it recovers.') {
+    super(message, { retryAfter: Math.max(0, retryAt - Date.now()) });
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+export default CircuitOpenError;
@@ -0,0 +1,30 @@
+export interface ComfortCloudErrorDetails {
+  /** HTTP status of the failed response, if any. */
+  status?: number;
+  /** Error code reported by Panasonic in the response body, if any. */
+  code?: string;
+  /** Delay (milliseconds) requested by the server through `Retry-After`, if any. */
+  retryAfter?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all failures raised by the Comfort Cloud clients.
+ */
+export class ComfortCloudError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ComfortCloudErrorDetails = {}) {
+    super(message);
+    this.name = 'ComfortCloudError';
+    this.status = details.status;
+    this.code = details.code;
+    this.retryAfter = details.retryAfter;
+    this.cause = details.cause;
+  }
+}
+
+export default ComfortCloudError;
@@ -0,0 +1,10 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class CredentialsMissingError extends ComfortCloudError {
+  constructor(message = 'Comfort Cloud credentials missing', details: ComfortCloudErrorDetails = {}) {
+    super(message, details);
+    this.name = 'CredentialsMissingError';
+  }
+}
+
+export default CredentialsMissingError;
@@ -0,0 +1,13 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class DeviceOfflineError extends ComfortCloudError {
+  constructor(
+    message = 'The unit is offline or not connected to Comfort Cloud.',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'DeviceOfflineError';
+  }
+}
+
+export default DeviceOfflineError;
@@ -0,0 +1,13 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class NetworkTimeoutError extends ComfortCloudError {
+  constructor(
+    message = 'Comfort Cloud could not be reached (network error or timeout).',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'NetworkTimeoutError';
+  }
+}
+
+export default NetworkTimeoutError;
@@ -0,0 +1,13 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class RateLimitedError extends ComfortCloudError {
+  constructor(
+    message = 'Comfort Cloud is throttling requests. Try again in a moment.',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export default RateLimitedError;
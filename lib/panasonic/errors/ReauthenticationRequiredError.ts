@@ -0,0 +1,18 @@
+import { AuthenticationFailedError } from './AuthenticationFailedError';
+import { ComfortCloudErrorDetails } from './ComfortCloudError';
+
+/**
+ * Raised when the session can no longer be renewed and the automatic re-login with the stored
+ * account credentials failed as well (or no credentials are stored). The user has to sign in again.
+ */
+export class ReauthenticationRequiredError extends AuthenticationFailedError {
+  constructor(
+    message = 'Comfort Cloud re-authentication required. Update the account credentials in the app settings or repair the device.',
+    details: ComfortCloudErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = 'ReauthenticationRequiredError';
+  }
+}
+
+export default ReauthenticationRequiredError;
@@ -0,0 +1,25 @@
+import { ComfortCloudError } from './ComfortCloudError';
+
+export type RequestCancelReason = 'timeout' | 'aborted' | 'budget';
+
+const CANCEL_MESSAGES: Record<RequestCancelReason, string> = {
+  timeout: 'Comfort Cloud request dropped after waiting too long in the queue.',
+  aborted: 'Comfort Cloud request cancelled.',
+  budget: 'Daily Comfort Cloud request budget used up. Polling resumes as the budget refills.',
+};
+
+/**
+ * Raised when a request is dropped before it was sent: it waited longer than its timeout, its
+ * caller aborted it or the daily request budget does not allow it.
+ */
+export class RequestCancelledError extends ComfortCloudError {
+  readonly reason: RequestCancelReason;
+
+  constructor(reason: RequestCancelReason, message?: string) {
+    super(message ?? CANCEL_MESSAGES[reason]);
+    this.name = 'RequestCancelledError';
+    this.reason = reason;
+  }
+}
+
+export default RequestCancelledError;
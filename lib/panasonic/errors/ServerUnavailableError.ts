@@ -0,0 +1,10 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class ServerUnavailableError extends ComfortCloudError {
+  constructor(message = 'Comfort Cloud is temporarily unavailable.', details: ComfortCloudErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerUnavailableError';
+  }
+}
+
+export default ServerUnavailableError;
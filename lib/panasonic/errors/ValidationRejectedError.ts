@@ -0,0 +1,10 @@
+import { ComfortCloudError, ComfortCloudErrorDetails } from './ComfortCloudError';
+
+export class ValidationRejectedError extends ComfortCloudError {
+  constructor(message = 'Comfort Cloud rejected the requested settings.', details: ComfortCloudErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ValidationRejectedError';
+  }
+}
+
+export default ValidationRejectedError;
@@ -0,0 +1,113 @@
+import {
+  AuthenticationFailedError,
+  CircuitOpenError,
+  CredentialsMissingError,
+  RateLimitedError,
+  RequestCancelledError,
+} from '../lib/panasonic/Errors';
+import type { ReadOptions } from '../lib/panasonic/ComfortCloudClient';
+import { DeviceState } from '../types';
+
+export interface AccountStateSource {
+  readAllStates(options?: ReadOptions): Promise<Map<string, DeviceState>>;
+  readState(deviceId: string, options?: ReadOptions): Promise<DeviceState>;
+}
+
+export interface AccountStatePollerOptions {
+  client: AccountStateSource;
+  /**
+   * Maximum age (milliseconds) of the account snapshot before the next request
+   * triggers a new `/device/group` fetch. Accepts a function so the value can
+   * follow the configured poll intervals.
+   */
+  maxAge: number | (() => number);
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+interface AccountSnapshot {
+  fetchedAt: number;
+  states: Map<string, DeviceState>;
+}
+
+/**
+ * Shares one account-wide status listing between all devices. Every device asks the poller for
+ * its own state; the first request of a cycle fetches the listing for the whole account and the
+ * remaining devices are served from that snapshot. Devices missing from the listing fall back to
+ * a dedicated `readState` call.
+ */
+export class AccountStatePoller {
+  private readonly client: AccountStateSource;
+  private readonly maxAge: number | (() => number);
+  private readonly logger?: (message: string, ...args: unknown[]) => void;
+  private snapshot?: AccountSnapshot;
+
+  constructor(options: AccountStatePollerOptions) {
+    this.client = options.client;
+    this.maxAge = options.maxAge;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Returns the state of the device. The read options (priority, queue timeout, signal) apply to
+   * the request issued on behalf of this caller. Listings requested while one is still queued are
+   * shared by the rate limiter, which keeps each caller's own options.
+   */
+  async getState(deviceId: string, options: ReadOptions = {}): Promise<DeviceState> {
+    try {
+      const snapshot = await this.getSnapshot(options);
+      const state = snapshot.states.get(deviceId);
+      if (state) {
+        return state;
+      }
+      this.logger?.('[AccountStatePoller.ts] Device "%s" missing from account listing, reading state directly', deviceId);
+    } catch (error) {
+      // Account-wide failures would hit every per-device read as well.
+      if (
+        error instanceof AuthenticationFailedError
+        || error instanceof CredentialsMissingError
+        || error instanceof RateLimitedError
+        || error instanceof CircuitOpenError
+        || error instanceof RequestCancelledError
+      ) {
+        throw error;
+      }
+      this.logger?.(
+        '[AccountStatePoller.ts] Account listing failed, reading state of "%s" directly: %s',
+        deviceId,
+        (error as Error).message,
+      );
+    }
+
+    const state = await this.client.readState(deviceId, options);
+    this.updateState(deviceId, state);
+    return state;
+  }
+
+  /**
+   * Stores a state obtained outside the account listing (e.g. right after a write) so that
+   * devices polling before the next cycle do not receive outdated values.
+   */
+  updateState(deviceId: string, state: DeviceState): void {
+    this.snapshot?.states.set(deviceId, state);
+  }
+
+  invalidate(): void {
+    this.snapshot = undefined;
+  }
+
+  private async getSnapshot(options: ReadOptions): Promise<AccountSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.fetchedAt < this.resolveMaxAge()) {
+      return this.snapshot;
+    }
+
+    const states = await this.client.readAllStates(options);
+    this.snapshot = { fetchedAt: Date.now(), states };
+    return this.snapshot;
+  }
+
+  private resolveMaxAge(): number {
+    return typeof this.maxAge === 'function' ? this.maxAge() : this.maxAge;
+  }
+}
+
+export default AccountStatePoller;
@@ -0,0 +1,111 @@
+import {
+  AuthenticationFailedError,
+  CircuitOpenError,
+  CredentialsMissingError,
+  DeviceOfflineError,
+  ReauthenticationRequiredError,
+  RequestCancelledError,
+} from '../lib/panasonic/Errors';
+import { DeviceState } from '../types';
+
+/** Why a device is unavailable: the unit itself, the account's sign-in or Comfort Cloud. */
+export type UnavailableReason = 'offline' | 'auth' | 'cloud';
+
+export interface AvailabilityStatus {
+  available: boolean;
+  reason?: UnavailableReason;
+  /** Message shown in Homey while unavailable. */
+  message?: string;
+}
+
+export interface AvailabilityMonitorOptions {
+  /** Consecutive failed requests after which the device is marked unavailable. Defaults to 3. */
+  failureThreshold?: number;
+  /** Age (milliseconds) of the unit's last report to Comfort Cloud after which it counts as offline. Defaults to 1 hour. */
+  staleAfter?: number;
+}
+
+const CLOUD_MESSAGE = 'Comfort Cloud unavailable. Retrying automatically.';
+
+/**
+ * Decides whether a device is available from the outcome of its requests. Definite answers
+ * (authentication problems, an offline unit, an open circuit) apply right away; other failures
+ * only after several in a row, so a single hiccup does not flag the device. A successful read
+ * recovers the device unless the unit is not connected to Comfort Cloud or its last report there
+ * is too old.
+ */
+export class AvailabilityMonitor {
+  private readonly failureThreshold: number;
+  private readonly staleAfter: number;
+  private failures = 0;
+  private status: AvailabilityStatus = { available: true };
+
+  constructor(options: AvailabilityMonitorOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 3);
+    this.staleAfter = Math.max(0, options.staleAfter ?? 60 * 60 * 1000);
+  }
+
+  getStatus(): AvailabilityStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Records a successful read of the unit's state.
+   */
+  recordState(state: DeviceState, now = Date.now()): AvailabilityStatus {
+    this.failures = 0;
+    if (state.online === false) {
+      return this.update('offline', 'The unit is not connected to Comfort Cloud.');
+    }
+    const age = now - state.timestamp;
+    if (age > this.staleAfter) {
+      const minutes = Math.round(age / 60000);
+      return this.update('offline', `The unit has not reported to Comfort Cloud for ${minutes} minutes.`);
+    }
+    return this.update();
+  }
+
+  /**
+   * Records a successful request that did not return the unit's state (e.g. a command). It shows
+   * Comfort Cloud and the sign-in work, but says nothing about whether the unit is connected.
+   */
+  recordReachable(): AvailabilityStatus {
+    this.failures = 0;
+    if (this.status.reason === 'offline') {
+      return this.getStatus();
+    }
+    return this.update();
+  }
+
+  recordFailure(error: unknown): AvailabilityStatus {
+    if (error instanceof RequestCancelledError) {
+      // Skipped, not failed (daily budget, queue timeout).
+      return this.getStatus();
+    }
+    if (error instanceof CircuitOpenError) {
+      return this.update('cloud', CLOUD_MESSAGE);
+    }
+    if (error instanceof ReauthenticationRequiredError || error instanceof CredentialsMissingError) {
+      return this.update('auth', error.message);
+    }
+    if (error instanceof AuthenticationFailedError) {
+      return this.update('auth', `${error.message} Repair the device to sign in again.`);
+    }
+    if (error instanceof DeviceOfflineError) {
+      return this.update('offline', error.message);
+    }
+
+    this.failures += 1;
+    if (this.failures < this.failureThreshold) {
+      return this.getStatus();
+    }
+    return this.update('cloud', CLOUD_MESSAGE);
+  }
+
+  private update(reason?: UnavailableReason, message?: string): AvailabilityStatus {
+    this.status = reason ? { available: false, reason, message } : { available: true };
+    return this.getStatus();
+  }
+}
+
+export default AvailabilityMonitor;
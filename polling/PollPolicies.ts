@@ -0,0 +1,115 @@
+import { PollPolicy } from './PollScheduler';
+
+export interface BurstPolicyOptions {
+  /** Tasks polled faster during a burst. */
+  taskIds: string[];
+  /** Interval (milliseconds) used during a burst; longer configured intervals are shortened to it. */
+  interval: number;
+  /** Length (milliseconds) of a burst. */
+  duration: number;
+}
+
+export interface BurstPolicy extends PollPolicy {
+  /** Starts (or extends) a burst. Call `PollScheduler.refresh()` afterwards to apply it right away. */
+  trigger(now?: number): void;
+  isActive(now?: number): boolean;
+}
+
+/**
+ * Polls the given tasks faster for a while, e.g. after a command or an external change, so the
+ * unit's reaction shows up quickly.
+ */
+export function createBurstPolicy(options: BurstPolicyOptions): BurstPolicy {
+  let activeUntil = 0;
+
+  const isActive = (now = Date.now()) => now < activeUntil;
+
+  return {
+    trigger(now = Date.now()) {
+      activeUntil = now + options.duration;
+    },
+    isActive,
+    apply(taskId, interval, now) {
+      if (!isActive(now) || !options.taskIds.includes(taskId)) {
+        return interval;
+      }
+      return Math.min(interval, options.interval);
+    },
+  };
+}
+
+export interface IdlePolicyOptions {
+  /** Tasks slowed down while idle. */
+  taskIds: string[];
+  /** Multiplier applied to the interval while idle. */
+  factor: number;
+  isIdle: () => boolean;
+}
+
+/**
+ * Slows the given tasks down while the unit is idle (e.g. switched off), when their readings
+ * change little.
+ */
+export function createIdlePolicy(options: IdlePolicyOptions): PollPolicy {
+  return {
+    apply(taskId, interval) {
+      if (!options.taskIds.includes(taskId) || !options.isIdle()) {
+        return interval;
+      }
+      return interval * options.factor;
+    },
+  };
+}
+
+export interface QuietHoursWindow {
+  /** Start of the window as minutes after midnight (local time). */
+  start: number;
+  /** End of the window as minutes after midnight (local time); may be before `start`. */
+  end: number;
+}
+
+export interface QuietHoursPolicyOptions {
+  /** Multiplier applied to every interval inside the window. */
+  factor: number;
+  /** Returns the configured window, or `null` when quiet hours are disabled. */
+  getWindow: () => QuietHoursWindow | null;
+  /** Returns the local time of day in minutes after midnight. */
+  getMinutesOfDay?: (now: number) => number;
+}
+
+/**
+ * Parses a `HH:MM` time of day into minutes after midnight.
+ */
+export const parseTimeOfDay = (value: unknown): number | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const localMinutesOfDay = (now: number): number => {
+  const date = new Date(now);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+/**
+ * Slows all tasks down inside a daily window, e.g. at night.
+ */
+export function createQuietHoursPolicy(options: QuietHoursPolicyOptions): PollPolicy {
+  const getMinutesOfDay = options.getMinutesOfDay ?? localMinutesOfDay;
+
+  return {
+    apply(taskId, interval, now) {
+      const window = options.getWindow();
+      if (!window || window.start === window.end) {
+        return interval;
+      }
+      const minutes = getMinutesOfDay(now);
+      const inside = window.start < window.end
+        ? minutes >= window.start && minutes < window.end
+        : minutes >= window.start || minutes < window.end;
+      return inside ? interval * options.factor : interval;
+    },
+  };
+}
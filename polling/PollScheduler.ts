@@ -3,32 +3,87 @@ export interface PollTask {
   interval: number; // milliseconds
   run: () => Promise<void> | void;
   immediate?: boolean;
+  /**
+   * Tasks sharing a group (e.g. the same poll tier of several devices) are spread evenly over the
+   * interval instead of all running at the same moment.
+   */
+  group?: string;
+}
+
+/**
+ * Adjusts task intervals at runtime, e.g. faster polling after a command or slower polling at
+ * night. Policies are applied in registration order, each receiving the interval computed so far.
+ */
+export interface PollPolicy {
+  apply(taskId: string, interval: number, now: number): number;
 }
 
 export interface PollSchedulerOptions {
   logger?: (message: string, ...args: unknown[]) => void;
   jitter?: number;
+  /** Upper bound for the factor by which consecutive failures stretch a task's interval. Defaults to 8. */
+  maxBackoffFactor?: number;
+}
+
+export interface PollTaskStatus {
+  id: string;
+  group?: string;
+  paused: boolean;
+  /** Whether the task is executing right now. */
+  running: boolean;
+  /** Interval after all policies, without the failure backoff. */
+  interval: number;
+  /** Factor currently applied to the interval because of consecutive failures. */
+  backoff: number;
+  nextRunAt?: number;
+  lastRun?: number;
+  lastSuccess?: number;
+  lastError?: string;
+  consecutiveFailures: number;
 }
 
 interface ScheduledTask extends PollTask {
   timeout?: NodeJS.Timeout;
+  inFlight?: Promise<void>;
+  paused: boolean;
+  failures: number;
   lastRun?: number;
+  lastSuccess?: number;
+  lastError?: string;
+  /** Time the pending run was planned for, before jitter. */
+  dueAt?: number;
+  registeredAt: number;
+  /** Offset within the interval (0..1) assigned to grouped tasks. */
+  phase: number;
 }
 
 /**
  * Simple scheduler that runs asynchronous poll tasks with independent intervals.
  * Each task is scheduled using setTimeout which allows us to change the interval dynamically
  * and to stop the scheduler completely without leaking timers.
+ *
+ * Grouped tasks run in fixed slots: the n tasks of a group are phased 1/n of the interval apart,
+ * and the groups themselves are interleaved. The slots are re-planned whenever a task joins or
+ * leaves a group; a task never runs sooner than half an interval after its previous run because
+ * of a re-plan.
+ *
+ * A failing task backs off exponentially (twice the interval after the first failure, four times
+ * after the second, ...) until it succeeds again.
  */
 export class PollScheduler {
   private readonly tasks = new Map<string, ScheduledTask>();
+  private readonly policies = new Map<string, PollPolicy>();
   private readonly logger?: (message: string, ...args: unknown[]) => void;
   private readonly jitter: number;
+  private readonly maxBackoffFactor: number;
   private running = false;
+  /** Reference point of the slot grid of grouped tasks. */
+  private anchor = Date.now();
 
   constructor(options: PollSchedulerOptions = {}) {
     this.logger = options.logger;
     this.jitter = options.jitter ?? 0;
+    this.maxBackoffFactor = Math.max(1, options.maxBackoffFactor ?? 8);
   }
 
   register(task: PollTask): void {
@@ -36,8 +91,17 @@ export class PollScheduler {
       throw new Error(`Poll task with id "${task.id}" already registered`);
     }
 
-    const state: ScheduledTask = { ...task };
+    const state: ScheduledTask = {
+      ...task,
+      paused: false,
+      failures: 0,
+      registeredAt: Date.now(),
+      phase: 0,
+    };
     this.tasks.set(task.id, state);
+    if (task.group !== undefined) {
+      this.replan();
+    }
 
     if (this.running) {
       this.schedule(state, task.immediate ?? true);
@@ -45,26 +109,133 @@ export class PollScheduler {
   }
 
   updateInterval(id: string, interval: number): void {
-    const task = this.tasks.get(id);
-    if (!task) {
-      throw new Error(`Unknown poll task: ${id}`);
+    const task = this.getTask(id);
+    task.interval = interval;
+    this.refresh();
+  }
+
+  /**
+   * Changes the interval of every task in the group.
+   */
+  updateGroupInterval(group: string, interval: number): void {
+    for (const task of this.tasks.values()) {
+      if (task.group === group) {
+        task.interval = interval;
+      }
     }
+    this.refresh();
+  }
 
-    task.interval = interval;
-    if (this.running) {
-      this.clearTimeout(task);
+  /**
+   * Adds or replaces a policy and reschedules the running tasks accordingly.
+   */
+  setPolicy(id: string, policy: PollPolicy): void {
+    this.policies.set(id, policy);
+    this.refresh();
+  }
+
+  removePolicy(id: string): void {
+    if (this.policies.delete(id)) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Interval of the task after all policies have been applied.
+   */
+  getInterval(id: string): number {
+    return this.resolveInterval(this.getTask(id), Date.now());
+  }
+
+  /**
+   * Runs the task right away and reschedules it relative to this run. Resolves once the run
+   * completed and rejects with the task's error; joins the current run if the task is executing.
+   * A paused task runs once and stays paused.
+   */
+  async runNow(id: string): Promise<void> {
+    const task = this.getTask(id);
+    this.clearTimeout(task);
+    await this.execute(task);
+  }
+
+  /**
+   * Stops scheduling the task until {@link resume} is called. A run in progress completes.
+   */
+  pause(id: string): void {
+    const task = this.getTask(id);
+    task.paused = true;
+    this.clearTimeout(task);
+  }
+
+  /**
+   * Schedules a paused task again, relative to its last run; an overdue task runs right away.
+   */
+  resume(id: string): void {
+    const task = this.getTask(id);
+    if (!task.paused) {
+      return;
+    }
+    task.paused = false;
+    if (!task.inFlight) {
       this.schedule(task, false);
     }
   }
 
+  getStatus(id: string): PollTaskStatus {
+    const task = this.getTask(id);
+    return {
+      id: task.id,
+      group: task.group,
+      paused: task.paused,
+      running: task.inFlight !== undefined,
+      interval: this.resolveInterval(task, Date.now()),
+      backoff: this.getBackoffFactor(task),
+      nextRunAt: task.timeout ? task.dueAt : undefined,
+      lastRun: task.lastRun,
+      lastSuccess: task.lastSuccess,
+      lastError: task.lastError,
+      consecutiveFailures: task.failures,
+    };
+  }
+
+  getStatuses(): PollTaskStatus[] {
+    return [...this.tasks.keys()].map((id) => this.getStatus(id));
+  }
+
+  /**
+   * Re-evaluates intervals, policies and slots, e.g. after a policy changed its state. Tasks whose
+   * next run moves are rescheduled relative to their last run; overdue tasks run right away.
+   */
+  refresh(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const task of this.tasks.values()) {
+      if (!task.timeout) {
+        continue;
+      }
+      const dueAt = this.nextRunAt(task, now);
+      if (task.dueAt === dueAt) {
+        continue;
+      }
+      this.clearTimeout(task);
+      this.scheduleAt(task, Math.max(0, dueAt - now));
+    }
+  }
+
   start(): void {
     if (this.running) {
       return;
     }
 
     this.running = true;
+    this.anchor = Date.now();
     for (const task of this.tasks.values()) {
-      this.schedule(task, task.immediate ?? true);
+      if (!task.paused) {
+        this.schedule(task, task.immediate ?? true);
+      }
     }
   }
 
@@ -87,36 +258,128 @@ export class PollScheduler {
 
     this.clearTimeout(task);
     this.tasks.delete(id);
+    if (task.group !== undefined) {
+      this.replan();
+    }
+  }
+
+  private getTask(id: string): ScheduledTask {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new Error(`Unknown poll task: ${id}`);
+    }
+    return task;
   }
 
   private schedule(task: ScheduledTask, immediate: boolean): void {
-    if (!this.running) {
+    if (!this.running || task.paused) {
       return;
     }
 
-    const delay = immediate ? 0 : this.calculateDelay(task.interval);
-    task.timeout = setTimeout(async () => {
-      await this.execute(task);
-    }, delay);
+    const now = Date.now();
+    this.scheduleAt(task, immediate ? 0 : Math.max(0, this.nextRunAt(task, now) - now));
+  }
+
+  /**
+   * Next run of the task: one interval after its previous run (or its registration), moved to the
+   * next free slot for grouped tasks.
+   */
+  private nextRunAt(task: ScheduledTask, now: number): number {
+    const interval = this.resolveInterval(task, now) * this.getBackoffFactor(task);
+    const previous = task.lastRun ?? task.registeredAt;
+    if (!task.group || interval <= 0) {
+      return previous + interval;
+    }
+
+    const earliest = previous + interval / 2;
+    const slot = Math.ceil((earliest - this.anchor) / interval - task.phase);
+    return this.anchor + (slot + task.phase) * interval;
+  }
+
+  /**
+   * Assigns evenly spread phases to the grouped tasks and moves pending runs to their slots.
+   */
+  private replan(): void {
+    const groups = [...new Set([...this.tasks.values()].map((task) => task.group))]
+      .filter((name): name is string => name !== undefined);
+    groups.forEach((group, groupIndex) => {
+      // Interleave the groups so e.g. a device's essential and environment polls do not coincide.
+      const groupOffset = groupIndex / groups.length;
+      const members = [...this.tasks.values()]
+        .filter((task) => task.group === group)
+        .sort((a, b) => a.id.localeCompare(b.id));
+      members.forEach((task, index) => {
+        task.phase = (index + groupOffset) / members.length;
+      });
+    });
+    this.refresh();
+  }
+
+  private scheduleAt(task: ScheduledTask, delay: number): void {
+    task.dueAt = Date.now() + delay;
+    task.timeout = setTimeout(() => {
+      task.timeout = undefined;
+      if (this.running) {
+        this.execute(task).catch(() => undefined);
+      }
+    }, delay > 0 ? this.calculateDelay(delay) : 0);
+  }
+
+  private getBackoffFactor(task: ScheduledTask): number {
+    return Math.min(2 ** task.failures, this.maxBackoffFactor);
+  }
+
+  private resolveInterval(task: ScheduledTask, now: number): number {
+    let { interval } = task;
+    for (const [id, policy] of this.policies) {
+      try {
+        interval = policy.apply(task.id, interval, now);
+      } catch (error) {
+        this.logger?.('[PollScheduler.ts] Poll policy "%s" failed: %s', id, (error as Error).message);
+      }
+    }
+    return Math.max(0, interval);
   }
 
   private async execute(task: ScheduledTask): Promise<void> {
-    if (!this.running) {
+    if (task.inFlight) {
+      await task.inFlight;
       return;
     }
 
+    const run = this.runTask(task);
+    task.inFlight = run;
     try {
-      task.lastRun = Date.now();
-      await task.run();
-    } catch (error) {
-      this.logger?.('[PollScheduler.ts] Poll task "%s" failed: %s', task.id, (error as Error).message);
+      await run;
     } finally {
-      if (this.running) {
+      task.inFlight = undefined;
+      // Not rescheduled when it was removed meanwhile or runNow() already planned the next run.
+      if (this.tasks.get(task.id) === task && !task.timeout) {
         this.schedule(task, false);
       }
     }
   }
 
+  private async runTask(task: ScheduledTask): Promise<void> {
+    task.lastRun = Date.now();
+    try {
+      await task.run();
+      task.failures = 0;
+      task.lastSuccess = Date.now();
+      task.lastError = undefined;
+    } catch (error) {
+      task.failures += 1;
+      task.lastError = (error as Error).message;
+      this.logger?.(
+        '[PollScheduler.ts] Poll task "%s" failed (%d in a row): %s',
+        task.id,
+        task.failures,
+        task.lastError,
+      );
+      throw error;
+    }
+  }
+
   private calculateDelay(interval: number): number {
     if (this.jitter <= 0) {
       return interval;
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import RateLimiter from '../lib/panasonic/RateLimiter';
+import AccountStatePoller from '../polling/AccountStatePoller';
+import { DeviceState } from '../types';
+
+const createState = (targetTemperature: number): DeviceState => ({
+  on: true,
+  thermostatMode: 'cool',
+  targetTemperature,
+  timestamp: Date.now(),
+});
+
+describe('AccountStatePoller', () => {
+  it('serves all devices from a single account listing per cycle', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ minInterval: 0 });
+    const listing = vi.fn(async () => new Map([
+      ['a', createState(21)],
+      ['b', createState(22)],
+    ]));
+    const readAllStates = vi.fn((options) => limiter.schedule(listing, { ...options, key: 'GET /device/group' }));
+    const readState = vi.fn(async () => createState(0));
+    const poller = new AccountStatePoller({ client: { readAllStates, readState }, maxAge: 1000 });
+
+    const [first, second] = await Promise.all([
+      poller.getState('a', { priority: 'essential' }),
+      poller.getState('b', { priority: 'extended', timeout: 5000 }),
+    ]);
+    expect(first.targetTemperature).toBe(21);
+    expect(second.targetTemperature).toBe(22);
+    expect(readAllStates).toHaveBeenCalledWith({ priority: 'essential' });
+    expect(readAllStates).toHaveBeenCalledWith({ priority: 'extended', timeout: 5000 });
+    expect(listing).toHaveBeenCalledTimes(1);
+
+    await poller.getState('a');
+    expect(listing).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await poller.getState('a');
+    expect(listing).toHaveBeenCalledTimes(2);
+    expect(readState).not.toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('falls back to a per-device read when the listing misses a device or fails', async () => {
+    const readAllStates = vi.fn(async () => new Map([['a', createState(21)]]));
+    const readState = vi.fn(async () => createState(19));
+    const poller = new AccountStatePoller({ client: { readAllStates, readState }, maxAge: 60000 });
+
+    const missing = await poller.getState('b');
+    expect(missing.targetTemperature).toBe(19);
+    expect(readState).toHaveBeenCalledWith('b', {});
+
+    poller.invalidate();
+    readAllStates.mockRejectedValueOnce(new Error('boom'));
+    const failed = await poller.getState('a');
+    expect(failed.targetTemperature).toBe(19);
+    expect(readState).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps states written after a control call until the next cycle', async () => {
+    const readAllStates = vi.fn(async () => new Map([['a', createState(21)]]));
+    const readState = vi.fn(async () => createState(0));
+    const poller = new AccountStatePoller({ client: { readAllStates, readState }, maxAge: 60000 });
+
+    await poller.getState('a');
+    poller.updateState('a', createState(24));
+    const state = await poller.getState('a');
+    expect(state.targetTemperature).toBe(24);
+    expect(readAllStates).toHaveBeenCalledTimes(1);
+  });
+});
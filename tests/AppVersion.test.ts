@@ -0,0 +1,119 @@
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import AppVersionManager, { DEFAULT_APP_VERSION, compareAppVersions } from '../lib/panasonic/AppVersion';
+import AuthSession from '../lib/panasonic/AuthSession';
+import ComfortCloudClient from '../lib/panasonic/ComfortCloudClient';
+import { ApiVersionRejectedError } from '../lib/panasonic/Errors';
+import RateLimiter from '../lib/panasonic/RateLimiter';
+import { CredentialsClient, TokenStore } from '../lib/panasonic/Provider';
+import { AuthTokens } from '../types';
+
+const createMemoryStore = <T>(initial: T | null = null): TokenStore<T> & { current: T | null } => ({
+  current: initial,
+  async get() {
+    return this.current;
+  },
+  async set(value: T) {
+    this.current = value;
+  },
+  async unset() {
+    this.current = null;
+  },
+});
+
+const validTokens = (): AuthTokens => ({
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  userId: 'user',
+  expiresAt: Date.now() + 3600 * 1000,
+});
+
+const createCredentials = (): CredentialsClient => {
+  const store = createMemoryStore<AuthTokens>(validTokens());
+  return {
+    getTokens: () => store.get(),
+    setTokens: (tokens) => store.set(tokens),
+    clearTokens: () => store.unset(),
+  };
+};
+
+describe('compareAppVersions', () => {
+  it('compares versions numerically', () => {
+    expect(compareAppVersions('1.20.0', '1.19.0')).toBeGreaterThan(0);
+    expect(compareAppVersions('1.9', '1.10.0')).toBeLessThan(0);
+    expect(compareAppVersions('2.0', '2.0.0')).toBe(0);
+  });
+});
+
+describe('AppVersionManager with ComfortCloudClient', () => {
+  let minimumVersion = '1.21.0';
+  const sentVersions: string[] = [];
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    const version = String(req.headers['x-app-version']);
+    sentVersions.push(version);
+    res.setHeader('Content-Type', 'application/json');
+    if (compareAppVersions(version, minimumVersion) < 0) {
+      res.statusCode = 401;
+      res.end(JSON.stringify({ code: 4106, message: 'Please update the app' }));
+      return;
+    }
+    res.end(JSON.stringify({ devices: [{ deviceGuid: 'abc' }] }));
+  });
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const createClient = (appVersion: AppVersionManager) => new ComfortCloudClient({
+    rateLimiter: new RateLimiter({ minInterval: 0 }),
+    session: new AuthSession({ credentialsClient: createCredentials() }),
+    appVersion,
+    baseUrl,
+  });
+
+  it('retries with a discovered version and persists it once accepted', async () => {
+    sentVersions.length = 0;
+    const store = createMemoryStore<string>();
+    const appVersion = new AppVersionManager({ store, discover: async () => '1.21.0' });
+
+    const devices = await createClient(appVersion).listDevices();
+    expect(devices.map((device) => device.id)).toEqual(['abc']);
+    expect(sentVersions).toEqual([DEFAULT_APP_VERSION, '1.21.0']);
+    expect(store.current).toBe('1.21.0');
+    expect(await appVersion.getVersion()).toBe('1.21.0');
+  });
+
+  it('prefers the configured override over discovery', async () => {
+    sentVersions.length = 0;
+    const discover = vi.fn(async () => '1.21.0');
+    const appVersion = new AppVersionManager({ getOverride: () => '1.22.0', discover });
+
+    await createClient(appVersion).listDevices();
+    expect(sentVersions).toEqual(['1.22.0']);
+    expect(discover).not.toHaveBeenCalled();
+  });
+
+  it('reports when no newer version can be found', async () => {
+    minimumVersion = '9.0.0';
+    const onUnrecoverable = vi.fn();
+    const appVersion = new AppVersionManager({ discover: async () => '1.21.0', onUnrecoverable });
+
+    await expect(createClient(appVersion).listDevices()).rejects.toBeInstanceOf(ApiVersionRejectedError);
+    expect(onUnrecoverable).toHaveBeenCalledTimes(1);
+    expect(onUnrecoverable).toHaveBeenCalledWith('1.21.0');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import AuthSession from '../lib/panasonic/AuthSession';
+import { AuthenticationFailedError } from '../lib/panasonic/Errors';
+import { CredentialsClient } from '../lib/panasonic/Provider';
+import { AuthTokens } from '../types';
+
+const createMemoryCredentials = (initial: AuthTokens | null): CredentialsClient => {
+  let current = initial;
+  return {
+    async getTokens() {
+      return current;
+    },
+    async setTokens(tokens: AuthTokens) {
+      current = tokens;
+    },
+    async clearTokens() {
+      current = null;
+    },
+  };
+};
+
+const createTokens = (accessToken: string, expiresIn = 3600): AuthTokens => ({
+  accessToken,
+  refreshToken: `${accessToken}-refresh`,
+  userId: 'user',
+  email: 'user@example.com',
+  expiresAt: Date.now() + expiresIn * 1000,
+});
+
+describe('AuthSession', () => {
+  it('shares a single refresh between concurrent callers', async () => {
+    const session = new AuthSession({ credentialsClient: createMemoryCredentials(createTokens('old', 0)) });
+    const renew = vi.fn(async () => {
+      const tokens = createTokens('new');
+      await session.setTokens(tokens);
+      return tokens;
+    });
+
+    const results = await Promise.all([
+      session.getValidTokens(renew),
+      session.getValidTokens(renew),
+      session.getValidTokens(renew),
+    ]);
+
+    expect(renew).toHaveBeenCalledTimes(1);
+    expect(results.map((tokens) => tokens.accessToken)).toEqual(['new', 'new', 'new']);
+  });
+
+  it('does not renew again when another client already replaced stale tokens', async () => {
+    const stale = createTokens('stale');
+    const session = new AuthSession({ credentialsClient: createMemoryCredentials(stale) });
+    await session.setTokens(createTokens('current'));
+    const renew = vi.fn(async () => createTokens('unexpected'));
+
+    const tokens = await session.renew(renew, stale);
+    expect(tokens.accessToken).toBe('current');
+    expect(renew).not.toHaveBeenCalled();
+  });
+
+  it('notifies listeners about token changes until unsubscribed', async () => {
+    const session = new AuthSession({ credentialsClient: createMemoryCredentials(null) });
+    const listener = vi.fn();
+    const unsubscribe = session.onTokensChanged(listener);
+
+    await session.setTokens(createTokens('first'));
+    unsubscribe();
+    await session.setTokens(createTokens('second'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].accessToken).toBe('first');
+    expect(await session.isAccount(' USER@example.com ')).toBe(true);
+  });
+
+  it('falls back to re-login when the refresh token is rejected', async () => {
+    const reauthenticate = vi.fn(async () => createTokens('relogin'));
+    const session = new AuthSession({
+      credentialsClient: createMemoryCredentials(createTokens('old', 0)),
+      reauthenticate,
+    });
+    const renew = vi.fn(async () => {
+      throw new AuthenticationFailedError(undefined, { status: 401 });
+    });
+
+    const [first, second] = await Promise.all([session.getValidTokens(renew), session.getValidTokens(renew)]);
+    expect(first.accessToken).toBe('relogin');
+    expect(second.accessToken).toBe('relogin');
+    expect(reauthenticate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import AvailabilityMonitor from '../polling/AvailabilityMonitor';
+import {
+  AuthenticationFailedError,
+  CircuitOpenError,
+  DeviceOfflineError,
+  NetworkTimeoutError,
+  RequestCancelledError,
+} from '../lib/panasonic/Errors';
+import { DeviceState } from '../types';
+
+const state = (overrides: Partial<DeviceState> = {}): DeviceState => ({
+  on: true,
+  thermostatMode: 'cool',
+  targetTemperature: 22,
+  timestamp: Date.now(),
+  ...overrides,
+});
+
+describe('AvailabilityMonitor', () => {
+  it('marks the device unavailable after consecutive failures and recovers on a fresh read', () => {
+    const monitor = new AvailabilityMonitor({ failureThreshold: 3 });
+
+    expect(monitor.recordFailure(new NetworkTimeoutError()).available).toBe(true);
+    expect(monitor.recordFailure(new RequestCancelledError('budget')).available).toBe(true);
+    expect(monitor.recordFailure(new NetworkTimeoutError()).available).toBe(true);
+    expect(monitor.recordFailure(new NetworkTimeoutError())).toMatchObject({ available: false, reason: 'cloud' });
+
+    expect(monitor.recordState(state())).toEqual({ available: true });
+  });
+
+  it('applies definite answers right away', () => {
+    const monitor = new AvailabilityMonitor();
+
+    expect(monitor.recordFailure(new CircuitOpenError(Date.now() + 1000)).reason).toBe('cloud');
+    expect(monitor.recordFailure(new DeviceOfflineError()).reason).toBe('offline');
+    const auth = monitor.recordFailure(new AuthenticationFailedError());
+    expect(auth).toMatchObject({ available: false, reason: 'auth' });
+    expect(auth.message).toContain('Repair the device');
+    expect(monitor.recordReachable()).toEqual({ available: true });
+  });
+
+  it('treats disconnected units and stale reports as offline', () => {
+    const now = Date.now();
+    const monitor = new AvailabilityMonitor({ staleAfter: 60 * 60 * 1000 });
+
+    expect(monitor.recordState(state({ online: false }), now)).toMatchObject({ available: false, reason: 'offline' });
+    // A successful command does not prove the unit is connected.
+    expect(monitor.recordReachable().reason).toBe('offline');
+
+    const stale = monitor.recordState(state({ timestamp: now - 2 * 60 * 60 * 1000 }), now);
+    expect(stale).toMatchObject({ available: false, reason: 'offline' });
+    expect(stale.message).toContain('120 minutes');
+
+    expect(monitor.recordState(state({ online: true, timestamp: now - 1000 }), now).available).toBe(true);
+  });
+});
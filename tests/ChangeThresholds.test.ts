@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import ChangeThresholds from '../lib/homey/ChangeThresholds';
+
+describe('ChangeThresholds', () => {
+  it('passes every change without a threshold', () => {
+    const thresholds = new ChangeThresholds();
+    expect(thresholds.passes('card', 0, { id: 1, previous: 21, current: 21.1 })).toBe(true);
+  });
+
+  it('ignores wobble and fires once small changes add up', () => {
+    const thresholds = new ChangeThresholds();
+    expect(thresholds.passes('card', 0.5, { id: 1, previous: 21, current: 21.2 })).toBe(false);
+    expect(thresholds.passes('card', 0.5, { id: 2, previous: 21.2, current: 21.1 })).toBe(false);
+    expect(thresholds.passes('card', 0.5, { id: 3, previous: 21.1, current: 21.5 })).toBe(true);
+    // The reference moved to 21.5.
+    expect(thresholds.passes('card', 0.5, { id: 4, previous: 21.5, current: 21.8 })).toBe(false);
+    expect(thresholds.passes('card', 0.5, { id: 5, previous: 21.8, current: 21 })).toBe(true);
+  });
+
+  it('gives every flow evaluated for the same reading the same answer', () => {
+    const thresholds = new ChangeThresholds();
+    const change = { id: 1, previous: 20, current: 21 };
+    expect(thresholds.passes('card', 1, change)).toBe(true);
+    expect(thresholds.passes('card', 1, change)).toBe(true);
+    expect(thresholds.passes('card', 2, change)).toBe(false);
+    expect(thresholds.passes('other', 1, change)).toBe(true);
+  });
+});
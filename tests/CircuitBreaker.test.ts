@@ -0,0 +1,77 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import CircuitBreaker from '../lib/panasonic/CircuitBreaker';
+import { AuthenticationFailedError, CircuitOpenError, ServerUnavailableError } from '../lib/panasonic/Errors';
+
+const fail = async (): Promise<never> => {
+  throw new ServerUnavailableError(undefined, { status: 503 });
+};
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive outage failures and short-circuits requests', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, openDuration: 1000 });
+
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerUnavailableError);
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerUnavailableError);
+    expect(breaker.getState()).toBe('open');
+
+    const request = vi.fn(async () => 'ok');
+    await expect(breaker.execute(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('lets a single probe through once the open period elapsed', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDuration: 1000 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerUnavailableError);
+
+    vi.advanceTimersByTime(1000);
+    let finishProbe: (value: string) => void = () => undefined;
+    const probe = breaker.execute(() => new Promise<string>((resolve) => {
+      finishProbe = resolve;
+    }));
+    expect(breaker.getState()).toBe('half-open');
+    await expect(breaker.execute(async () => 'other')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.getSnapshot()).toEqual({ state: 'closed', failures: 0, retryAt: undefined });
+  });
+
+  it('reopens for longer when the probe fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDuration: 1000 });
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerUnavailableError);
+
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(ServerUnavailableError);
+    expect(breaker.getSnapshot().retryAt).toBe(Date.now() + 2000);
+  });
+
+  it('does not count authentication failures as outages', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await expect(breaker.execute(async () => {
+      throw new AuthenticationFailedError();
+    })).rejects.toBeInstanceOf(AuthenticationFailedError);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('can be tripped for the duration requested by the server', () => {
+    const breaker = new CircuitBreaker({ openDuration: 1000 });
+    breaker.trip(30000);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', retryAt: Date.now() + 30000 });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import AuthSession from '../lib/panasonic/AuthSession';
+import CircuitBreaker from '../lib/panasonic/CircuitBreaker';
+import ComfortCloudClient from '../lib/panasonic/ComfortCloudClient';
+import { ReauthenticationRequiredError, ServerUnavailableError } from '../lib/panasonic/Errors';
+import RateLimiter from '../lib/panasonic/RateLimiter';
+import { CredentialsClient } from '../lib/panasonic/Provider';
+import { AuthTokens } from '../types';
+
+const createMemoryCredentials = (initial: AuthTokens | null): CredentialsClient & { current: AuthTokens | null } => ({
+  current: initial,
+  async getTokens() {
+    return this.current;
+  },
+  async setTokens(tokens: AuthTokens) {
+    this.current = tokens;
+  },
+  async clearTokens() {
+    this.current = null;
+  },
+});
+
+const expiredTokens = (): AuthTokens => ({
+  accessToken: 'expired',
+  refreshToken: 'dead-refresh',
+  userId: 'user',
+  expiresAt: Date.now() - 1000,
+});
+
+describe('ComfortCloudClient', () => {
+  let unavailableRequests = 0;
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url === '/auth/token') {
+      res.statusCode = 401;
+      res.end(JSON.stringify({ message: 'invalid refresh token' }));
+      return;
+    }
+    if (req.url === '/device/group' && req.headers['x-user-authorization'] === 'busy') {
+      unavailableRequests += 1;
+      res.statusCode = 503;
+      res.setHeader('Retry-After', '0');
+      res.end('{}');
+      return;
+    }
+    if (req.url === '/device/group') {
+      const authorized = req.headers['x-user-authorization'] === 'fresh';
+      res.statusCode = authorized ? 200 : 401;
+      res.end(JSON.stringify(authorized ? { devices: [{ deviceGuid: 'abc' }] } : {}));
+      return;
+    }
+    res.statusCode = 404;
+    res.end('{}');
+  });
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('logs in again with stored credentials when the refresh token is rejected', async () => {
+    const session = new AuthSession({
+      credentialsClient: createMemoryCredentials(expiredTokens()),
+      reauthenticate: vi.fn(async (): Promise<AuthTokens> => {
+        const tokens = {
+          accessToken: 'fresh',
+          refreshToken: 'new-refresh',
+          userId: 'user',
+          expiresAt: Date.now() + 3600 * 1000,
+        };
+        await session.setTokens(tokens);
+        return tokens;
+      }),
+    });
+    const client = new ComfortCloudClient({
+      rateLimiter: new RateLimiter({ minInterval: 0 }),
+      session,
+      baseUrl,
+    });
+
+    const devices = await client.listDevices();
+    expect(devices.map((device) => device.id)).toEqual(['abc']);
+    expect((await session.getTokens())?.accessToken).toBe('fresh');
+  });
+
+  it('requires re-authentication when the re-login fails as well', async () => {
+    const client = new ComfortCloudClient({
+      rateLimiter: new RateLimiter({ minInterval: 0 }),
+      session: new AuthSession({
+        credentialsClient: createMemoryCredentials(expiredTokens()),
+        reauthenticate: async () => {
+          throw new Error('invalid password');
+        },
+      }),
+      baseUrl,
+    });
+
+    await expect(client.listDevices()).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+  });
+
+  it('counts a request and its retries as a single circuit breaker failure', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+    const client = new ComfortCloudClient({
+      rateLimiter: new RateLimiter({ minInterval: 0 }),
+      session: new AuthSession({
+        credentialsClient: createMemoryCredentials({
+          accessToken: 'busy',
+          refreshToken: 'refresh',
+          userId: 'user',
+          expiresAt: Date.now() + 3600 * 1000,
+        }),
+      }),
+      circuitBreaker,
+      baseUrl,
+    });
+
+    await expect(client.listDevices()).rejects.toBeInstanceOf(ServerUnavailableError);
+    expect(unavailableRequests).toBe(4);
+    expect(circuitBreaker.getSnapshot()).toMatchObject({ state: 'closed', failures: 1 });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import {
+  ApiVersionRejectedError,
+  AuthenticationFailedError,
+  ComfortCloudError,
+  DeviceOfflineError,
+  NetworkTimeoutError,
+  RateLimitedError,
+  ServerUnavailableError,
+  ValidationRejectedError,
+  toComfortCloudError,
+} from '../lib/panasonic/Errors';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+const createAxiosError = (status: number, data: unknown, headers: Record<string, string> = {}): AxiosError => new AxiosError(
+  `Request failed with status code ${status}`,
+  'ERR_BAD_RESPONSE',
+  config,
+  {},
+  {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data,
+  },
+);
+
+describe('toComfortCloudError', () => {
+  it('maps HTTP statuses to typed errors', () => {
+    expect(toComfortCloudError(createAxiosError(401, {}))).toBeInstanceOf(AuthenticationFailedError);
+    expect(toComfortCloudError(createAxiosError(429, {}))).toBeInstanceOf(RateLimitedError);
+    expect(toComfortCloudError(createAxiosError(503, {}))).toBeInstanceOf(ServerUnavailableError);
+    expect(toComfortCloudError(createAxiosError(400, { message: 'temperature out of range' })))
+      .toBeInstanceOf(ValidationRejectedError);
+  });
+
+  it('keeps the status and the Panasonic error code', () => {
+    const error = toComfortCloudError(createAxiosError(401, '{"code":4106,"message":"Please update the app"}'));
+    expect(error).toBeInstanceOf(ApiVersionRejectedError);
+    expect(error.status).toBe(401);
+    expect(error.code).toBe('4106');
+
+    const offline = toComfortCloudError(createAxiosError(403, { code: 5005, message: 'Device is offline' }));
+    expect(offline).toBeInstanceOf(DeviceOfflineError);
+    expect(offline.code).toBe('5005');
+  });
+
+  it('reads the Retry-After header', () => {
+    const error = toComfortCloudError(createAxiosError(429, {}, { 'retry-after': '30' }));
+    expect(error.retryAfter).toBe(30000);
+  });
+
+  it('treats requests without response as network failures', () => {
+    const timeout = new AxiosError('timeout of 20000ms exceeded', 'ECONNABORTED', config, {});
+    const error = toComfortCloudError(timeout);
+    expect(error).toBeInstanceOf(NetworkTimeoutError);
+    expect(error.code).toBe('ECONNABORTED');
+  });
+
+  it('wraps unknown failures and passes typed errors through', () => {
+    const typed = new RateLimitedError();
+    expect(toComfortCloudError(typed)).toBe(typed);
+    expect(toComfortCloudError(new Error('boom'))).toBeInstanceOf(ComfortCloudError);
+  });
+});
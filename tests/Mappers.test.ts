@@ -1,5 +1,15 @@
 import { describe, expect, it } from 'vitest';
-import { buildCapabilityPlan, createWritePayload, mapDevice, mapDeviceState } from '../lib/panasonic/Mappers';
+import {
+  buildCapabilityPlan,
+  createWritePayload,
+  expandSwingPatch,
+  findUnsupportedSettings,
+  mapDevice,
+  mapDeviceState,
+  mapDeviceStatesFromResponse,
+  mapFanSpeed,
+  mergeDeviceFeatures,
+} from '../lib/panasonic/Mappers';
 import { ComfortDevice } from '../types';
 
 describe('Mappers', () => {
@@ -39,9 +49,10 @@ describe('Mappers', () => {
           insideTemp: 21.5,
           insideHumidity: 44,
           outsideTemp: 10,
-          fanSpeed: 2,
+          fanSpeed: 3,
           airSwingUD: 1,
           airSwingLR: 0,
+          fanAutoMode: 2,
           instantPower: 950,
           cumulativePower: 3.4,
           filterSign: 0,
@@ -59,10 +70,41 @@ describe('Mappers', () => {
     expect(state.outdoorTemperature).toBe(10);
     expect(state.fanSpeed).toBe('medium');
     expect(state.swingMode).toBe('vertical');
+    expect(state.verticalVane).toBe('auto');
+    expect(state.horizontalVane).toBe('left');
     expect(state.powerConsumption).toBe(950);
     expect(state.energyConsumption).toBe(3.4);
   });
 
+  it('splits an account listing into per-device states', () => {
+    const states = mapDeviceStatesFromResponse({
+      groups: [
+        {
+          devices: [
+            {
+              deviceGuid: 'abc123',
+              parameters: { operate: 1, operationMode: 1, targetTemp: 23, insideTemp: 20 },
+            },
+            {
+              deviceGuid: 'def456',
+              parameters: { operate: 0, operationMode: 3, targetTemp: 25 },
+            },
+            {
+              deviceGuid: 'ghi789',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(Array.from(states.keys())).toEqual(['abc123', 'def456']);
+    expect(states.get('abc123')?.on).toBe(true);
+    expect(states.get('abc123')?.thermostatMode).toBe('heat');
+    expect(states.get('abc123')?.indoorTemperature).toBe(20);
+    expect(states.get('def456')?.on).toBe(false);
+    expect(states.get('def456')?.targetTemperature).toBe(25);
+  });
+
   it('builds capabilities based on features', () => {
     const device = mapDevice(rawDevice);
     const plan = buildCapabilityPlan(device as ComfortDevice);
@@ -98,7 +140,169 @@ describe('Mappers', () => {
     expect(payload.operationMode).toBeGreaterThanOrEqual(0);
     expect(payload.targetTemp).toBeLessThanOrEqual(30);
     expect(payload.fanSpeed).toBe(1);
-    expect(payload.airSwingUD).toBe(1);
-    expect(payload.airSwingLR).toBe(1);
+    expect(payload.fanAutoMode).toBe(0);
+  });
+
+  it('maps the online flag and the report time of the values', () => {
+    const now = Date.now();
+    const state = mapDeviceState({ connected: false, timestamp: 1700000000, parameters: { operate: 1 } });
+    expect(state.online).toBe(false);
+    expect(state.timestamp).toBe(1700000000 * 1000);
+
+    const future = mapDeviceState({ timestamp: now + 60 * 60 * 1000, parameters: {} });
+    expect(future.online).toBeUndefined();
+    expect(future.timestamp).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('reports settings the unit does not support', () => {
+    const features = {
+      ...mapDevice(rawDevice).features,
+      fanSpeeds: ['auto', 'low', 'high'] as ComfortDevice['features']['fanSpeeds'],
+      supportsSwingHorizontal: false,
+    };
+
+    expect(findUnsupportedSettings({ thermostatMode: 'heat', targetTemperature: 22, swingMode: 'vertical' }, features))
+      .toEqual([]);
+    const problems = findUnsupportedSettings({ targetTemperature: 35, fanSpeed: 'medium', swingMode: 'both' }, features);
+    expect(problems).toHaveLength(3);
+    expect(problems[0]).toContain('16–30 °C');
+    expect(problems[1]).toContain('auto, low, high');
+  });
+
+  it('maps the eco sub-mode and writes it back', () => {
+    const device = mapDevice({ ...rawDevice, parameters: { ...rawDevice.parameters, ecoMode: 2 } });
+    expect(device.features.supportsEcoMode).toBe(true);
+    expect(mapDevice(rawDevice).features.supportsEcoMode).toBe(false);
+    expect(mapDevice({ ...rawDevice, powerfulMode: true }).features.supportsEcoMode).toBe(true);
+    expect(buildCapabilityPlan(device).capabilities).toContain('eco_mode');
+
+    const state = mapDeviceState({ parameters: { operate: 1, ecoMode: 2 } }, device);
+    expect(state.ecoMode).toBe('quiet');
+    expect(createWritePayload({ ecoMode: 'powerful' }, state)).toEqual({ ecoMode: 1 });
+    expect(findUnsupportedSettings({ ecoMode: 'quiet' }, mapDevice(rawDevice).features)).toHaveLength(1);
+  });
+
+  it('maps nanoe, ecoNavi and inside cleaning', () => {
+    const device = mapDevice({
+      ...rawDevice,
+      insideCleaning: true,
+      parameters: { ...rawDevice.parameters, nanoe: 2, ecoNavi: 0 },
+    });
+    expect(device.features.supportsNanoe).toBe(true);
+    expect(device.features.supportsEcoNavi).toBe(false);
+    expect(device.features.supportsInsideCleaning).toBe(true);
+    expect(buildCapabilityPlan(device).capabilities).toEqual(expect.arrayContaining(['nanoe', 'inside_cleaning']));
+    expect(buildCapabilityPlan(device).capabilities).not.toContain('eco_navi');
+
+    const state = mapDeviceState({ parameters: { nanoe: 4, ecoNavi: 0, insideCleaning: 1 } }, device);
+    expect(state.nanoe).toBe(true);
+    expect(state.ecoNavi).toBeUndefined();
+    expect(state.insideCleaning).toBe(false);
+    expect(createWritePayload({ nanoe: false, insideCleaning: true }, state)).toEqual({ nanoe: 1, insideCleaning: 2 });
+    expect(findUnsupportedSettings({ ecoNavi: true }, device.features)).toHaveLength(1);
+  });
+
+  it('maps vane positions and derives the swing mode from them', () => {
+    const device = mapDevice(rawDevice);
+    const state = mapDeviceState({ parameters: { airSwingUD: 4, airSwingLR: 1, fanAutoMode: 3 } }, device);
+    expect(state.verticalVane).toBe('down_mid');
+    expect(state.horizontalVane).toBe('auto');
+    expect(state.swingMode).toBe('horizontal');
+    expect(buildCapabilityPlan(device).capabilities).toEqual(expect.arrayContaining(['vane_vertical', 'vane_horizontal']));
+
+    expect(createWritePayload({ verticalVane: 'up_mid' }, state)).toEqual({ fanAutoMode: 3, airSwingUD: 3 });
+    expect(createWritePayload({ horizontalVane: 'right_mid', verticalVane: 'auto' }, state))
+      .toEqual({ fanAutoMode: 2, airSwingLR: 3 });
+    expect(createWritePayload({ swingMode: 'off' }, state)).toEqual({ fanAutoMode: 1 });
+
+    expect(expandSwingPatch({ verticalVane: 'auto' }, state)).toEqual({ verticalVane: 'auto', swingMode: 'both' });
+    expect(expandSwingPatch({ swingMode: 'vertical' }, state)).toEqual({ swingMode: 'vertical', verticalVane: 'auto' });
+  });
+
+  it('maps all five fan levels and the speeds a unit supports', () => {
+    expect([0, 1, 2, 3, 4, 5].map((level) => mapFanSpeed(level)))
+      .toEqual(['auto', 'low', 'low_medium', 'medium', 'medium_high', 'high']);
+    expect(mapFanSpeed('Low-Mid')).toBe('low_medium');
+    expect(mapFanSpeed('highMid')).toBe('medium_high');
+    expect(mapFanSpeed(7)).toBeUndefined();
+
+    const device = mapDevice({
+      ...rawDevice,
+      parameters: { ...rawDevice.parameters, supportedFanSpeeds: ['high', 'Auto', 'mid-high', 'low'] },
+    });
+    expect(device.features.fanSpeeds).toEqual(['auto', 'low', 'medium_high', 'high']);
+    expect(mapDevice({ parameters: {} }).features.fanSpeeds).toHaveLength(6);
+
+    expect(createWritePayload({ fanSpeed: 'medium_high' }, undefined)).toEqual({ fanSpeed: 4 });
+    expect(findUnsupportedSettings({ fanSpeed: 'low_medium' }, device.features)).toHaveLength(1);
+  });
+
+  it('uses the temperature range of the mode', () => {
+    const device = mapDevice({
+      ...rawDevice,
+      parameters: { ...rawDevice.parameters, heatMinTemp: 8, heatMaxTemp: 15, autoMaxTemp: 27 },
+    });
+    expect(device.features.temperatureRanges).toEqual({
+      auto: { min: 16, max: 27 },
+      heat: { min: 8, max: 15 },
+    });
+
+    const state = mapDeviceState({ parameters: { operationMode: 1, targetTemp: 10 } }, device);
+    expect(state.targetTemperature).toBe(10);
+    expect(createWritePayload({ targetTemperature: 20 }, state).targetTemp).toBe(15);
+    expect(createWritePayload({ thermostatMode: 'cool', targetTemperature: 20 }, state).targetTemp).toBe(20);
+
+    expect(findUnsupportedSettings({ targetTemperature: 20 }, device.features, 'heat'))
+      .toEqual(['Temperature 20 °C is outside the unit\'s range of 8–15 °C in heat mode.']);
+    expect(findUnsupportedSettings({ thermostatMode: 'cool', targetTemperature: 20 }, device.features, 'heat')).toEqual([]);
+  });
+
+  it('leaves the setpoint out in a mode without one', () => {
+    const device = mapDevice({ ...rawDevice, parameters: { ...rawDevice.parameters, dryTempAvl: 0 } });
+    expect(device.features.temperatureRanges).toEqual({ dry: null });
+
+    const state = mapDeviceState({ parameters: { operationMode: 2, targetTemp: 22 } }, device);
+    expect(createWritePayload({ targetTemperature: 20 }, state)).toEqual({});
+    expect(createWritePayload({ thermostatMode: 'cool', targetTemperature: 20 }, state))
+      .toEqual({ operationMode: 3, targetTemp: 20 });
+
+    expect(findUnsupportedSettings({ targetTemperature: 20 }, device.features, 'dry'))
+      .toEqual(['The unit has no temperature setpoint in dry mode.']);
+    expect(findUnsupportedSettings({ thermostatMode: 'dry', targetTemperature: 20 }, device.features, 'cool'))
+      .toEqual(['The unit has no temperature setpoint in dry mode.']);
+    expect(findUnsupportedSettings({ thermostatMode: 'heat', targetTemperature: 20 }, device.features, 'dry')).toEqual([]);
+  });
+
+  it('treats the setpoint of an offset mode as an offset', () => {
+    const device = mapDevice({ ...rawDevice, parameters: { ...rawDevice.parameters, autoMaxOffset: 2 } });
+    expect(device.features.temperatureRanges).toEqual({ auto: { min: -2, max: 2, offset: true } });
+
+    const state = mapDeviceState({ parameters: { operationMode: 0, targetTemp: -1 } }, device);
+    expect(state.targetTemperature).toBe(-1);
+    expect(createWritePayload({ targetTemperature: 3 }, state).targetTemp).toBe(2);
+    expect(createWritePayload({ thermostatMode: 'heat', targetTemperature: 3 }, state).targetTemp).toBe(16);
+
+    expect(findUnsupportedSettings({ targetTemperature: 1.5 }, device.features, 'auto')).toEqual([]);
+    expect(findUnsupportedSettings({ targetTemperature: 21 }, device.features, 'auto'))
+      .toEqual(['Temperature offset 21 °C is outside the unit\'s range of -2–2 °C in auto mode.']);
+  });
+
+  it('adds functions and fan speeds found later to the stored features', () => {
+    const stored = mapDevice({ ...rawDevice, nanoe: true }).features;
+    const detected = mapDevice({
+      ...rawDevice,
+      parameters: { minTemp: 8, supportedFanSpeeds: ['auto', 'lowMid', 'midHigh'], ecoMode: 0 },
+    }).features;
+
+    const merged = mergeDeviceFeatures(stored, detected);
+    expect(merged.fanSpeeds).toEqual(['auto', 'low', 'low_medium', 'medium', 'medium_high', 'high']);
+    expect(merged).toMatchObject({
+      minTemperature: 8,
+      maxTemperature: 30,
+      supportsHumidity: true,
+      supportsNanoe: true,
+      supportsEcoMode: true,
+      supportsInsideCleaning: false,
+    });
   });
 });
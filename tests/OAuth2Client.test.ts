@@ -0,0 +1,189 @@
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+} from 'vitest';
+import { createHash } from 'node:crypto';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import AuthSession from '../lib/panasonic/AuthSession';
+import OAuth2Client from '../lib/panasonic/OAuth2Client';
+import RateLimiter from '../lib/panasonic/RateLimiter';
+import { CredentialsClient } from '../lib/panasonic/Provider';
+import { AuthTokens } from '../types';
+
+const REDIRECT_URI = 'panasonic-iot-cfc://auth.test/callback';
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const base64Url = (buffer: Buffer): string => buffer
+  .toString('base64')
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_')
+  .replace(/=+$/, '');
+
+/**
+ * Minimal stand-in for Panasonic's identity provider and the Comfort Cloud API.
+ */
+const createStandInServer = () => {
+  const issued = { challenge: '', refreshCount: 0 };
+  const apiHeaders: Array<Record<string, string | string[] | undefined>> = [];
+
+  const server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await readBody(req);
+
+    const redirect = (location: string) => {
+      res.writeHead(302, { Location: location });
+      res.end();
+    };
+    const json = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (url.pathname === '/authorize') {
+      issued.challenge = url.searchParams.get('code_challenge') ?? '';
+      redirect(`/u/login?state=login-state`);
+      return;
+    }
+    if (url.pathname === '/u/login') {
+      res.writeHead(200, { 'Set-Cookie': '_csrf=csrf-token; Path=/; HttpOnly' });
+      res.end('<html></html>');
+      return;
+    }
+    if (url.pathname === '/usernamepassword/login') {
+      const payload = JSON.parse(body);
+      if (payload.password !== 'secret' || payload._csrf !== 'csrf-token' || payload.state !== 'login-state') {
+        json(401, { error: 'invalid_user_password' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<form><input type="hidden" name="wa" value="wsignin1.0"><input name="wresult" type="hidden" value="&quot;token&quot;"></form>');
+      return;
+    }
+    if (url.pathname === '/login/callback') {
+      const fields = new URLSearchParams(body);
+      if (fields.get('wresult') !== '"token"') {
+        json(400, { error: 'bad_callback' });
+        return;
+      }
+      redirect('/authorize/resume?state=resume');
+      return;
+    }
+    if (url.pathname === '/authorize/resume') {
+      redirect(`${REDIRECT_URI}?code=auth-code&state=client-state`);
+      return;
+    }
+    if (url.pathname === '/oauth/token') {
+      const payload = JSON.parse(body);
+      if (payload.grant_type === 'authorization_code') {
+        const challenge = base64Url(createHash('sha256').update(String(payload.code_verifier)).digest());
+        if (payload.code !== 'auth-code' || challenge !== issued.challenge) {
+          json(403, { error: 'invalid_grant' });
+          return;
+        }
+        json(200, { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 });
+        return;
+      }
+      issued.refreshCount += 1;
+      json(200, {
+        access_token: `access-${issued.refreshCount + 1}`,
+        refresh_token: `refresh-${issued.refreshCount + 1}`,
+        expires_in: 3600,
+      });
+      return;
+    }
+    if (url.pathname === '/auth/v2/login') {
+      json(200, { clientId: 'acc-client' });
+      return;
+    }
+    if (url.pathname === '/device/group') {
+      apiHeaders.push(req.headers);
+      json(200, { groups: [{ devices: [{ deviceGuid: 'abc', deviceName: 'Bedroom', parameters: {} }] }] });
+      return;
+    }
+    json(404, {});
+  });
+
+  return { server, issued, apiHeaders };
+};
+
+const createMemoryCredentials = (): CredentialsClient & { current: AuthTokens | null } => ({
+  current: null,
+  async getTokens() {
+    return this.current;
+  },
+  async setTokens(tokens: AuthTokens) {
+    this.current = tokens;
+  },
+  async clearTokens() {
+    this.current = null;
+  },
+});
+
+describe('OAuth2Client', () => {
+  const standIn = createStandInServer();
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+  });
+
+  const createClient = (credentialsClient: CredentialsClient) => new OAuth2Client({
+    rateLimiter: new RateLimiter({ minInterval: 0 }),
+    session: new AuthSession({ credentialsClient }),
+    baseUrl,
+    authBaseUrl: baseUrl,
+    redirectUri: REDIRECT_URI,
+  });
+
+  it('logs in through the authorization-code flow with PKCE', async () => {
+    const credentials = createMemoryCredentials();
+    const client = createClient(credentials);
+
+    const tokens = await client.login({ email: 'user@example.com', password: 'secret' });
+    expect(tokens.accessToken).toBe('access-1');
+    expect(tokens.refreshToken).toBe('refresh-1');
+    expect(tokens.clientId).toBe('acc-client');
+    expect(tokens.provider).toBe('oauth2');
+    expect(tokens.email).toBe('user@example.com');
+    expect(credentials.current).toEqual(tokens);
+
+    const devices = await client.listDevices();
+    expect(devices.map((device) => device.id)).toEqual(['abc']);
+    const headers = standIn.apiHeaders[standIn.apiHeaders.length - 1];
+    expect(headers['x-user-authorization-v2']).toBe('Bearer access-1');
+    expect(headers['x-client-id']).toBe('acc-client');
+  });
+
+  it('rejects invalid credentials', async () => {
+    const client = createClient(createMemoryCredentials());
+    await expect(client.login({ email: 'user@example.com', password: 'wrong' })).rejects.toThrow();
+  });
+
+  it('rotates the refresh token on refresh', async () => {
+    const credentials = createMemoryCredentials();
+    const client = createClient(credentials);
+    const tokens = await client.login({ email: 'user@example.com', password: 'secret' });
+
+    const refreshed = await client.refresh(tokens);
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(refreshed.refreshToken).not.toBe(tokens.refreshToken);
+    expect(refreshed.clientId).toBe('acc-client');
+    expect(credentials.current?.refreshToken).toBe(refreshed.refreshToken);
+  });
+});
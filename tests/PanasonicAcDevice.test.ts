@@ -0,0 +1,645 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { PanasonicAcDevice } from '../drivers/panasonic-ac/device';
+import {
+  AuthenticationFailedError,
+  CredentialsMissingError,
+  NetworkTimeoutError,
+  ReauthenticationRequiredError,
+} from '../lib/panasonic/Errors';
+import { FAN_SPEEDS } from '../lib/panasonic/Mappers';
+import { AuthTokens, ComfortDeviceFeatures, DeviceState } from '../types';
+
+const { FakeDevice } = vi.hoisted(() => {
+  /** Stand-in for `Homey.Device` that keeps store, settings and capabilities in memory. */
+  class FakeDevice {
+    store = new Map<string, unknown>();
+    settings: Record<string, unknown> = {};
+    capabilities = new Map<string, unknown>();
+    capabilityOptions = new Map<string, unknown>();
+    listeners = new Map<string, (value: unknown) => Promise<void>>();
+    available = true;
+    warning: string | null = null;
+
+    log(): void {}
+
+    error(): void {}
+
+    getName(): string {
+      return 'Living room';
+    }
+
+    getData(): { id: string } {
+      return { id: 'device-1' };
+    }
+
+    getSetting(key: string): unknown {
+      return this.settings[key];
+    }
+
+    getStoreValue(key: string): unknown {
+      return this.store.get(key) ?? null;
+    }
+
+    async setStoreValue(key: string, value: unknown): Promise<void> {
+      this.store.set(key, JSON.parse(JSON.stringify(value)));
+    }
+
+    async unsetStoreValue(key: string): Promise<void> {
+      this.store.delete(key);
+    }
+
+    getAvailable(): boolean {
+      return this.available;
+    }
+
+    async setAvailable(): Promise<void> {
+      this.available = true;
+    }
+
+    async setUnavailable(): Promise<void> {
+      this.available = false;
+    }
+
+    async setWarning(message: string): Promise<void> {
+      this.warning = message;
+    }
+
+    async unsetWarning(): Promise<void> {
+      this.warning = null;
+    }
+
+    hasCapability(capability: string): boolean {
+      return this.capabilities.has(capability);
+    }
+
+    getCapabilities(): string[] {
+      return [...this.capabilities.keys()];
+    }
+
+    async addCapability(capability: string): Promise<void> {
+      this.capabilities.set(capability, null);
+    }
+
+    async removeCapability(capability: string): Promise<void> {
+      this.capabilities.delete(capability);
+    }
+
+    async setCapabilityOptions(capability: string, options: unknown): Promise<void> {
+      this.capabilityOptions.set(capability, options);
+    }
+
+    getCapabilityValue(capability: string): unknown {
+      return this.capabilities.get(capability);
+    }
+
+    async setCapabilityValue(capability: string, value: unknown): Promise<void> {
+      this.capabilities.set(capability, value);
+    }
+
+    registerCapabilityListener(capability: string, listener: (value: unknown) => Promise<void>): void {
+      this.listeners.set(capability, listener);
+    }
+  }
+
+  return { FakeDevice };
+});
+
+vi.mock('homey', () => ({ default: { Device: FakeDevice } }));
+
+type FakeDeviceInstance = InstanceType<typeof FakeDevice>;
+
+const FEATURES: ComfortDeviceFeatures = {
+  minTemperature: 16,
+  maxTemperature: 30,
+  fanSpeeds: FAN_SPEEDS,
+  supportsHumidity: false,
+  supportsOutdoorTemperature: false,
+  supportsEnergyMonitoring: false,
+  supportsSwingVertical: true,
+  supportsSwingHorizontal: true,
+  supportsEcoMode: false,
+  supportsNanoe: false,
+  supportsEcoNavi: false,
+  supportsInsideCleaning: false,
+};
+
+const createState = (overrides: Partial<DeviceState> = {}): DeviceState => ({
+  on: true,
+  thermostatMode: 'cool',
+  targetTemperature: 21,
+  indoorTemperature: 24,
+  fanSpeed: 'auto',
+  swingMode: 'off',
+  verticalVane: 'mid',
+  horizontalVane: 'mid',
+  timestamp: Date.now(),
+  ...overrides,
+});
+
+const createDevice = async (state: DeviceState = createState(), features: ComfortDeviceFeatures = FEATURES) => {
+  const tasks = new Map<string, () => Promise<void>>();
+  const scheduler = {
+    register: vi.fn((task: { id: string; run: () => Promise<void> }) => {
+      tasks.set(task.id, task.run);
+    }),
+    unregister: vi.fn(),
+    setPolicy: vi.fn(),
+    removePolicy: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    refresh: vi.fn(),
+    runNow: vi.fn(async (id: string) => tasks.get(id)?.()),
+    getInterval: vi.fn(() => 60 * 1000),
+  };
+  const statePoller = {
+    getState: vi.fn(async () => state),
+    updateState: vi.fn(),
+  };
+  const client = {
+    control: vi.fn(async () => undefined),
+    writeState: vi.fn(async (id: string, patch: Partial<DeviceState>) => ({ ...state, ...patch })),
+    readState: vi.fn(async () => state),
+  };
+  const tokenListeners = new Set<(tokens: AuthTokens | null) => void>();
+  const session = {
+    onTokensChanged: (listener: (tokens: AuthTokens | null) => void) => {
+      tokenListeners.add(listener);
+      return () => tokenListeners.delete(listener);
+    },
+    setTokens: (tokens: AuthTokens | null) => tokenListeners.forEach((listener) => listener(tokens)),
+  };
+  const app = {
+    getPollScheduler: () => scheduler,
+    getSession: () => session,
+    getPollIntervals: () => ({ essential: 60 * 1000, environment: 5 * 60 * 1000, extended: 15 * 60 * 1000 }),
+    getStatePoller: () => statePoller,
+    getClient: () => client,
+    getWriteSettleDelay: () => 5000,
+  };
+  const driver = {
+    triggerStateChange: vi.fn(),
+    triggerCapabilityChange: vi.fn(async () => undefined),
+    triggerOfflineCommand: vi.fn(async () => undefined),
+    triggerAvailabilityChanged: vi.fn(async () => undefined),
+  };
+
+  const device = new PanasonicAcDevice();
+  const fake = device as unknown as FakeDeviceInstance;
+  Object.assign(device, {
+    homey: {
+      app,
+      setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+      clearTimeout: (timer: NodeJS.Timeout) => clearTimeout(timer),
+    },
+    driver,
+  });
+  fake.store.set('features', features);
+  await device.onInit();
+  // Lets the initial poll started by onInit complete.
+  await vi.advanceTimersByTimeAsync(0);
+
+  return {
+    device,
+    fake,
+    scheduler,
+    session,
+    statePoller,
+    client,
+    driver,
+  };
+};
+
+describe('PanasonicAcDevice', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('presets', () => {
+    it('saves the current settings and replaces a preset with the same name', async () => {
+      const { device } = await createDevice();
+
+      await device.savePreset('Night');
+      const preset = await device.savePreset(' night ');
+
+      expect(preset).toMatchObject({
+        name: 'night',
+        settings: {
+          on: true,
+          thermostatMode: 'cool',
+          targetTemperature: 21,
+          fanSpeed: 'auto',
+          swingMode: 'off',
+          verticalVane: 'mid',
+          horizontalVane: 'mid',
+        },
+      });
+      expect(device.getPresets()).toEqual([preset]);
+      await expect(device.savePreset('  ')).rejects.toThrow('Enter a name for the preset.');
+    });
+
+    it('applies a preset with a single control request', async () => {
+      const { device, client } = await createDevice();
+      await device.savePreset('Evening');
+      const changed = device.setClimateState({ thermostatMode: 'heat', targetTemperature: 23, fanSpeed: 'high' });
+      await vi.advanceTimersByTimeAsync(400);
+      await changed;
+      client.control.mockClear();
+
+      const recalled = device.recallPreset('evening');
+      await vi.advanceTimersByTimeAsync(400);
+      await recalled;
+
+      expect(client.control).toHaveBeenCalledTimes(1);
+      expect(client.control).toHaveBeenCalledWith('device-1', expect.objectContaining({
+        thermostatMode: 'cool',
+        targetTemperature: 21,
+        fanSpeed: 'auto',
+      }));
+      await expect(device.recallPreset('Morning')).rejects.toThrow('Preset "Morning" does not exist.');
+    });
+
+    it('deletes presets by name', async () => {
+      const { device } = await createDevice();
+      await device.savePreset('Away / 18°');
+      await device.savePreset('Home');
+
+      expect(await device.deletePreset('away / 18°')).toBe(true);
+      expect(await device.deletePreset('Away / 18°')).toBe(false);
+      expect(device.getPresets().map((preset) => preset.name)).toEqual(['Home']);
+    });
+  });
+
+  describe('offline queue', () => {
+    const unreachable = () => new NetworkTimeoutError();
+
+    it('queues a write while Comfort Cloud is unreachable', async () => {
+      const { device, fake, client, driver } = await createDevice();
+      client.control.mockRejectedValueOnce(unreachable());
+
+      const changed = device.setClimateState({ targetTemperature: 23 });
+      await vi.advanceTimersByTimeAsync(400);
+      await changed;
+
+      expect(fake.store.get('queuedCommand')).toMatchObject({
+        patch: { targetTemperature: 23 },
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      });
+      expect(driver.triggerOfflineCommand).toHaveBeenCalledWith(device, 'queued', 'targetTemperature=23');
+    });
+
+    it('merges later writes into the queued command and restarts its expiry', async () => {
+      const { device, fake, client } = await createDevice();
+      fake.settings.offlineQueueExpiry = 10;
+      client.control.mockRejectedValue(unreachable());
+
+      const first = device.setClimateState({ targetTemperature: 23 });
+      await vi.advanceTimersByTimeAsync(400);
+      await first;
+      const queuedAt = Date.now();
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+      const second = device.setClimateState({ fanSpeed: 'high' });
+      await vi.advanceTimersByTimeAsync(400);
+      await second;
+
+      expect(fake.store.get('queuedCommand')).toEqual({
+        patch: { targetTemperature: 23, fanSpeed: 'high' },
+        queuedAt,
+        expiresAt: Date.now() + 10 * 60 * 1000,
+      });
+    });
+
+    it('drops the queued command once it expired', async () => {
+      const { device, fake, client, statePoller, driver } = await createDevice();
+      fake.settings.offlineQueueExpiry = 10;
+      client.control.mockRejectedValue(unreachable());
+      statePoller.getState.mockRejectedValue(unreachable());
+
+      const changed = device.setClimateState({ targetTemperature: 23 });
+      await vi.advanceTimersByTimeAsync(400);
+      await changed;
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+      await expect(device.refreshNow()).rejects.toBeInstanceOf(NetworkTimeoutError);
+
+      expect(fake.store.has('queuedCommand')).toBe(false);
+      expect(driver.triggerOfflineCommand).toHaveBeenLastCalledWith(device, 'expired', 'targetTemperature=23');
+    });
+
+    it('replays the queued command once the unit can be read again', async () => {
+      const { device, fake, client, driver } = await createDevice();
+      client.control.mockRejectedValueOnce(unreachable());
+
+      const changed = device.setClimateState({ targetTemperature: 23 });
+      await vi.advanceTimersByTimeAsync(400);
+      await changed;
+      client.control.mockClear();
+      await device.refreshNow();
+      await vi.advanceTimersByTimeAsync(400);
+
+      expect(client.control).toHaveBeenCalledTimes(1);
+      expect(client.control).toHaveBeenCalledWith('device-1', { targetTemperature: 23 });
+      expect(fake.store.has('queuedCommand')).toBe(false);
+      expect(driver.triggerOfflineCommand).toHaveBeenLastCalledWith(device, 'replayed', 'targetTemperature=23');
+    });
+  });
+
+  describe('pending writes', () => {
+    const setFromUi = async (fake: FakeDeviceInstance, capability: string, value: unknown) => {
+      fake.capabilities.set(capability, value);
+      const listener = fake.listeners.get(capability);
+      const written = listener?.(value);
+      await vi.advanceTimersByTimeAsync(400);
+      await written;
+    };
+
+    it('shows the written value until the unit reports it back', async () => {
+      const { fake, client } = await createDevice();
+      client.readState.mockResolvedValueOnce(createState()).mockResolvedValueOnce(createState({ targetTemperature: 23 }));
+
+      await setFromUi(fake, 'target_temperature', 23);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(1);
+      expect(fake.getCapabilityValue('target_temperature')).toBe(23);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(2);
+      expect(fake.getCapabilityValue('target_temperature')).toBe(23);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(2);
+      expect(fake.warning).toBeNull();
+    });
+
+    it('gives up and shows the reported value when the reconcile reads keep disagreeing', async () => {
+      const { fake, client } = await createDevice();
+
+      await setFromUi(fake, 'target_temperature', 23);
+      await vi.advanceTimersByTimeAsync(3 * 5000);
+
+      expect(client.readState).toHaveBeenCalledTimes(3);
+      expect(fake.getCapabilityValue('target_temperature')).toBe(21);
+      expect(fake.warning).toBe('The last change was not applied by the unit.');
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(3);
+    });
+
+    it('rolls the capability back when the write fails', async () => {
+      const { fake, client } = await createDevice();
+      client.control.mockRejectedValueOnce(new Error('Invalid parameter'));
+
+      fake.capabilities.set('target_temperature', 23);
+      const written = expect(fake.listeners.get('target_temperature')?.(23)).rejects.toThrow('Invalid parameter');
+      await vi.advanceTimersByTimeAsync(400);
+      await written;
+
+      expect(fake.getCapabilityValue('target_temperature')).toBe(21);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).not.toHaveBeenCalled();
+    });
+
+    it('replaces the pending value with a newer write', async () => {
+      const { fake, client } = await createDevice();
+      client.readState.mockResolvedValue(createState({ targetTemperature: 23 }));
+
+      await setFromUi(fake, 'target_temperature', 23);
+      await vi.advanceTimersByTimeAsync(1000);
+      await setFromUi(fake, 'target_temperature', 24);
+
+      // The read still reports the first write; the newer value stays on top of it.
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(1);
+      expect(fake.getCapabilityValue('target_temperature')).toBe(24);
+
+      client.readState.mockResolvedValue(createState({ targetTemperature: 24 }));
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(fake.getCapabilityValue('target_temperature')).toBe(24);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.readState).toHaveBeenCalledTimes(2);
+      expect(fake.warning).toBeNull();
+    });
+  });
+
+  describe('conditions', () => {
+    it('compares readings against thresholds strictly', async () => {
+      const { device } = await createDevice(createState({
+        indoorHumidity: 50,
+        outdoorTemperature: -2,
+        powerConsumption: 500,
+      }));
+
+      expect(device.isPowerAbove(500)).toBe(false);
+      expect(device.isPowerAbove(499.9)).toBe(true);
+      expect(device.isHumidityAbove(50)).toBe(false);
+      expect(device.isHumidityBelow(50)).toBe(false);
+      expect(device.isHumidityBelow(50.5)).toBe(true);
+      expect(device.isOutdoorTemperatureBelow(0)).toBe(true);
+      expect(device.isOutdoorTemperatureAbove(-2)).toBe(false);
+    });
+
+    it('never matches readings the unit does not report', async () => {
+      const { device } = await createDevice(createState({ indoorTemperature: undefined }));
+
+      expect(device.isPowerAbove(-1)).toBe(false);
+      expect(device.isHumidityBelow(100)).toBe(false);
+      expect(device.isOutdoorTemperatureAbove(-50)).toBe(false);
+      expect(device.isIndoorTemperatureBetween(-50, 50)).toBe(false);
+      expect(device.isEcoMode('auto')).toBe(false);
+    });
+
+    it('includes both bounds of a temperature range and accepts them in either order', async () => {
+      const { device } = await createDevice(createState({ indoorTemperature: 24 }));
+
+      expect(device.isIndoorTemperatureBetween(20, 24)).toBe(true);
+      expect(device.isIndoorTemperatureBetween(24, 28)).toBe(true);
+      expect(device.isIndoorTemperatureBetween(28, 20)).toBe(true);
+      expect(device.isIndoorTemperatureBetween(24, 24)).toBe(true);
+      expect(device.isIndoorTemperatureBetween(24.5, 28)).toBe(false);
+      expect(device.isIndoorTemperatureBetween(23.5, 18)).toBe(false);
+    });
+
+    it('matches the fan speed and swing mode exactly', async () => {
+      const { device } = await createDevice(createState({
+        fanSpeed: 'low_medium',
+        swingMode: 'vertical',
+        verticalVane: 'auto',
+      }));
+
+      expect(device.isFanSpeed('low_medium')).toBe(true);
+      expect(device.isFanSpeed('low')).toBe(false);
+      expect(device.isSwingMode('vertical')).toBe(true);
+      expect(device.isSwingMode('both')).toBe(false);
+      expect(device.isSwingMode('off')).toBe(false);
+    });
+
+    it('reports the filter and connection alarms', async () => {
+      const { device, statePoller } = await createDevice(createState({ filterAlarm: true }));
+      expect(device.isFilterAlarmActive()).toBe(true);
+      expect(device.isConnectionAlarmActive()).toBe(false);
+
+      statePoller.getState.mockResolvedValue(createState({ filterAlarm: false, connectionAlarm: true }));
+      await device.refreshNow();
+      expect(device.isFilterAlarmActive()).toBe(false);
+      expect(device.isConnectionAlarmActive()).toBe(true);
+    });
+  });
+
+  describe('polling', () => {
+    it('refreshes right away while another tier is still polling', async () => {
+      const { device, scheduler, statePoller } = await createDevice();
+      let finishEssential: (state: DeviceState) => void = () => undefined;
+      statePoller.getState.mockImplementationOnce(() => new Promise<DeviceState>((resolve) => {
+        finishEssential = resolve;
+      }));
+      statePoller.getState.mockResolvedValueOnce(createState({ indoorTemperature: 26 }));
+
+      const essential = scheduler.runNow('device-1:essential');
+      await device.refreshNow();
+
+      expect(statePoller.getState).toHaveBeenLastCalledWith('device-1', expect.objectContaining({ priority: 'extended' }));
+      expect(device.isIndoorTemperatureBetween(26, 26)).toBe(true);
+      finishEssential(createState({ indoorTemperature: 26 }));
+      await essential;
+    });
+
+    it('pauses while the account has to sign in again and resumes with new tokens', async () => {
+      const { device, scheduler, session, statePoller } = await createDevice();
+      statePoller.getState.mockRejectedValueOnce(new ReauthenticationRequiredError());
+
+      await expect(device.refreshNow()).rejects.toBeInstanceOf(ReauthenticationRequiredError);
+      expect(scheduler.pause).toHaveBeenCalledTimes(3);
+      expect(scheduler.pause).toHaveBeenCalledWith('device-1:essential');
+
+      statePoller.getState.mockClear();
+      session.setTokens({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+        userId: 'user',
+      });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(scheduler.resume).toHaveBeenCalledTimes(3);
+      expect(statePoller.getState).toHaveBeenCalledTimes(1);
+    });
+
+    it('resumes once credentials entered in the app settings logged the account in', async () => {
+      const { device, scheduler, session, statePoller } = await createDevice();
+      statePoller.getState.mockRejectedValueOnce(new CredentialsMissingError());
+
+      await expect(device.refreshNow()).rejects.toBeInstanceOf(CredentialsMissingError);
+      expect(scheduler.pause).toHaveBeenCalledTimes(3);
+
+      // Saving the credentials logs the account in, which stores new tokens in the session.
+      statePoller.getState.mockClear();
+      session.setTokens({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+        userId: 'user',
+        email: 'user@example.com',
+      });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(scheduler.resume).toHaveBeenCalledWith('device-1:essential');
+      expect(scheduler.resume).toHaveBeenCalledTimes(3);
+      expect(statePoller.getState).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves a rejected login to the scheduler backoff', async () => {
+      const { device, scheduler, statePoller } = await createDevice();
+      statePoller.getState.mockRejectedValueOnce(new AuthenticationFailedError());
+
+      await expect(device.refreshNow()).rejects.toBeInstanceOf(AuthenticationFailedError);
+      expect(scheduler.pause).not.toHaveBeenCalled();
+    });
+
+    it('shares a poll of the same tier that is in progress', async () => {
+      const { device, statePoller } = await createDevice();
+      statePoller.getState.mockClear();
+
+      await Promise.all([device.refreshNow(), device.refreshNow()]);
+
+      expect(statePoller.getState).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setpoint ranges', () => {
+    const features: ComfortDeviceFeatures = {
+      ...FEATURES,
+      temperatureRanges: { heat: { min: 8, max: 15 }, dry: null },
+    };
+
+    it('checks the setpoint against a mode change that is still being sent', async () => {
+      const { device, client } = await createDevice(createState(), features);
+
+      const mode = device.setThermostatMode('heat');
+      const temperature = device.setTargetTemperature(10);
+      await vi.advanceTimersByTimeAsync(400);
+      await Promise.all([mode, temperature]);
+
+      expect(client.control).toHaveBeenCalledWith('device-1', { thermostatMode: 'heat', targetTemperature: 10 });
+      await expect(device.setTargetTemperature(20))
+        .rejects.toThrow('Temperature 20 °C is outside the unit\'s range of 8–15 °C in heat mode.');
+    });
+
+    it('keeps the setpoint out of modes without one', async () => {
+      const { device, fake } = await createDevice(createState({ thermostatMode: 'dry', targetTemperature: 22 }), features);
+
+      expect(fake.getCapabilityValue('target_temperature')).toBeNull();
+      await expect(device.setTargetTemperature(20)).rejects.toThrow('The unit has no temperature setpoint in dry mode.');
+      const preset = await device.savePreset('Dehumidify');
+      expect(preset.settings).not.toHaveProperty('targetTemperature');
+    });
+  });
+
+  describe('features', () => {
+    const pairedEarlier: ComfortDeviceFeatures = { ...FEATURES, fanSpeeds: ['auto', 'low', 'medium', 'high'] };
+
+    it('offers fan speeds a unit paired with the old list reports', async () => {
+      const { device, fake, client } = await createDevice(createState({ raw: { fanSpeed: 0 } }), pairedEarlier);
+
+      expect(fake.store.get('features')).toMatchObject({ fanSpeeds: FAN_SPEEDS });
+      expect(fake.capabilityOptions.get('fan_speed')).toMatchObject({
+        values: FAN_SPEEDS.map((speed) => ({ id: speed })),
+      });
+
+      const changed = device.setFanSpeed('low_medium');
+      await vi.advanceTimersByTimeAsync(400);
+      await changed;
+      expect(client.control).toHaveBeenCalledWith('device-1', { fanSpeed: 'low_medium' });
+    });
+
+    it('adds the capabilities of functions a read reveals, with their listeners', async () => {
+      const { fake, client } = await createDevice(createState({ nanoe: true, raw: { nanoe: 2 } }));
+
+      expect(fake.store.get('features')).toMatchObject({ supportsNanoe: true });
+      expect(fake.getCapabilityValue('nanoe')).toBe(true);
+
+      const written = fake.listeners.get('nanoe')?.(false);
+      await vi.advanceTimersByTimeAsync(400);
+      await written;
+      expect(client.control).toHaveBeenCalledWith('device-1', { nanoe: false });
+    });
+
+    it('takes over the features of a rescan listing', async () => {
+      const { device, fake } = await createDevice();
+
+      await device.handleDriverRescan({ ...FEATURES, supportsEcoMode: true, supportsInsideCleaning: true });
+
+      expect(fake.hasCapability('eco_mode')).toBe(true);
+      expect(fake.hasCapability('inside_cleaning')).toBe(true);
+      expect(fake.listeners.has('eco_mode')).toBe(true);
+      expect(fake.listeners.has('inside_cleaning')).toBe(true);
+      expect(fake.store.get('features')).toMatchObject({ supportsEcoMode: true, supportsInsideCleaning: true });
+    });
+  });
+});
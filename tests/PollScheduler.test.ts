@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
+import { createBurstPolicy, createIdlePolicy, createQuietHoursPolicy, parseTimeOfDay } from '../polling/PollPolicies';
 import PollScheduler from '../polling/PollScheduler';
 
 describe('PollScheduler', () => {
@@ -55,9 +56,176 @@ describe('PollScheduler', () => {
 
     scheduler.start();
     await vi.advanceTimersByTimeAsync(0);
-    await vi.advanceTimersByTimeAsync(500);
+    // The failure doubles the interval once.
+    await vi.advanceTimersByTimeAsync(1000);
     expect(spy).toHaveBeenCalledTimes(1);
     scheduler.stop();
     vi.useRealTimers();
   });
+
+  it('polls faster during a burst and reschedules when refreshed', async () => {
+    vi.useFakeTimers();
+    const scheduler = new PollScheduler();
+    const runSpy = vi.fn();
+    const burst = createBurstPolicy({ taskIds: ['essential'], interval: 1000, duration: 3000 });
+
+    scheduler.register({
+      id: 'essential', interval: 10000, immediate: true, run: async () => runSpy(),
+    });
+    scheduler.setPolicy('burst', burst);
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(runSpy).toHaveBeenCalledTimes(1);
+
+    burst.trigger();
+    scheduler.refresh();
+    expect(scheduler.getInterval('essential')).toBe(1000);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(runSpy).toHaveBeenCalledTimes(4);
+
+    expect(burst.isActive()).toBe(false);
+    expect(scheduler.getInterval('essential')).toBe(10000);
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(runSpy).toHaveBeenCalledTimes(4);
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('applies idle and quiet hours factors', () => {
+    let idle = false;
+    let minutes = 12 * 60;
+    const scheduler = new PollScheduler();
+    scheduler.register({ id: 'essential', interval: 1000, run: async () => undefined });
+    scheduler.register({ id: 'environment', interval: 1000, run: async () => undefined });
+    scheduler.setPolicy('idle', createIdlePolicy({ taskIds: ['environment'], factor: 3, isIdle: () => idle }));
+    scheduler.setPolicy('quietHours', createQuietHoursPolicy({
+      factor: 2,
+      getWindow: () => ({ start: 23 * 60, end: 7 * 60 }),
+      getMinutesOfDay: () => minutes,
+    }));
+
+    expect(scheduler.getInterval('environment')).toBe(1000);
+    idle = true;
+    expect(scheduler.getInterval('essential')).toBe(1000);
+    expect(scheduler.getInterval('environment')).toBe(3000);
+    minutes = 2 * 60;
+    expect(scheduler.getInterval('essential')).toBe(2000);
+    expect(scheduler.getInterval('environment')).toBe(6000);
+  });
+
+  it('parses times of day', () => {
+    expect(parseTimeOfDay('07:30')).toBe(450);
+    expect(parseTimeOfDay('23:00')).toBe(1380);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay(undefined)).toBeNull();
+  });
+
+  it('spreads grouped tasks over the interval and re-plans when tasks leave', async () => {
+    vi.useFakeTimers();
+    const scheduler = new PollScheduler();
+    const runs: Array<[string, number]> = [];
+    scheduler.start();
+    const start = Date.now();
+
+    for (const id of ['a', 'b', 'c', 'd']) {
+      scheduler.register({
+        id,
+        group: 'essential',
+        interval: 4000,
+        immediate: false,
+        run: async () => {
+          runs.push([id, Date.now() - start]);
+        },
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(8000);
+    expect(runs.slice(0, 4)).toEqual([['c', 2000], ['d', 3000], ['a', 4000], ['b', 5000]]);
+
+    runs.length = 0;
+    scheduler.unregister('c');
+    scheduler.unregister('d');
+    await vi.advanceTimersByTimeAsync(8000);
+    const times = runs.map(([, time]) => time % 4000).sort((x, y) => x - y);
+    expect(new Set(times)).toEqual(new Set([0, 2000]));
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('backs off after consecutive failures and resets on success', async () => {
+    vi.useFakeTimers();
+    const scheduler = new PollScheduler({ maxBackoffFactor: 4 });
+    let failing = true;
+    const run = vi.fn(async () => {
+      if (failing) {
+        throw new Error('offline');
+      }
+    });
+    scheduler.register({
+      id: 'task', interval: 1000, immediate: true, run,
+    });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(scheduler.getStatus('task')).toMatchObject({ consecutiveFailures: 3, backoff: 4, lastError: 'offline' });
+
+    failing = false;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(run).toHaveBeenCalledTimes(4);
+    const status = scheduler.getStatus('task');
+    expect(status).toMatchObject({ consecutiveFailures: 0, backoff: 1, lastError: undefined });
+    expect(status.lastSuccess).toBe(Date.now());
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(5);
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs tasks on demand and honours pause and resume', async () => {
+    vi.useFakeTimers();
+    const scheduler = new PollScheduler();
+    const run = vi.fn(async () => undefined);
+    scheduler.register({
+      id: 'task', interval: 10000, immediate: false, run,
+    });
+    scheduler.start();
+
+    await scheduler.runNow('task');
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus('task').nextRunAt).toBe(Date.now() + 10000);
+
+    scheduler.pause('task');
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus('task')).toMatchObject({ paused: true, nextRunAt: undefined });
+
+    await scheduler.runNow('task');
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus('task').paused).toBe(true);
+
+    scheduler.resume('task');
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(run).toHaveBeenCalledTimes(3);
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('rejects runNow with the task error', async () => {
+    const scheduler = new PollScheduler();
+    scheduler.register({
+      id: 'task',
+      interval: 1000,
+      run: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    await expect(scheduler.runNow('task')).rejects.toThrow('boom');
+    expect(scheduler.getStatus('task').consecutiveFailures).toBe(1);
+    await expect(scheduler.runNow('missing')).rejects.toThrow('Unknown poll task');
+  });
 });
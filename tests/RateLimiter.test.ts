@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RequestCancelledError } from '../lib/panasonic/Errors';
+import RateLimiter from '../lib/panasonic/RateLimiter';
+
+const deferred = () => {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('RateLimiter', () => {
+  it('starts queued tasks by priority lane', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, minInterval: 0 });
+    const blocker = deferred();
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const running = limiter.schedule(() => blocker.promise, { priority: 'essential' });
+    const queued = [
+      limiter.schedule(task('extended'), { priority: 'extended' }),
+      limiter.schedule(task('essential'), { priority: 'essential' }),
+      limiter.schedule(task('pairing'), { priority: 'pairing' }),
+      limiter.schedule(task('user'), { priority: 'user' }),
+    ];
+    expect(limiter.getStats().queuedByPriority).toMatchObject({ user: 1, pairing: 1, essential: 1, extended: 1 });
+
+    blocker.resolve();
+    await Promise.all([running, ...queued]);
+    expect(order).toEqual(['user', 'pairing', 'essential', 'extended']);
+  });
+
+  it('shares the result of identical queued reads', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, minInterval: 0 });
+    const blocker = deferred();
+    let reads = 0;
+    const read = async () => {
+      reads += 1;
+      return reads;
+    };
+
+    const running = limiter.schedule(() => blocker.promise);
+    const first = limiter.schedule(read, { key: 'GET /deviceStatus/abc', priority: 'extended' });
+    const second = limiter.schedule(read, { key: 'GET /deviceStatus/abc', priority: 'essential' });
+
+    blocker.resolve();
+    await running;
+    expect(await first).toBe(1);
+    expect(await second).toBe(1);
+    expect(limiter.getStats()).toMatchObject({ started: 2, deduplicated: 1 });
+  });
+
+  it('shares the result of an identical read that is already running', async () => {
+    const limiter = new RateLimiter({ minInterval: 0 });
+    const response = deferred();
+    const read = vi.fn(() => response.promise);
+
+    const first = limiter.schedule(read, { key: 'GET /device/group', priority: 'essential' });
+    const second = limiter.schedule(read, { key: 'GET /device/group', priority: 'extended', timeout: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    response.resolve();
+    await Promise.all([first, second]);
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(limiter.getStats()).toMatchObject({ started: 1, deduplicated: 1, rejected: { timedOut: 0 } });
+
+    await limiter.schedule(read, { key: 'GET /device/group' });
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops tasks that time out or are aborted while queued', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, minInterval: 0 });
+    const blocker = deferred();
+    const controller = new AbortController();
+
+    const running = limiter.schedule(() => blocker.promise);
+    const stale = limiter.schedule(async () => 'stale', { timeout: 10 });
+    const aborted = limiter.schedule(async () => 'aborted', { signal: controller.signal });
+    controller.abort();
+
+    await Promise.all([
+      expect(stale).rejects.toBeInstanceOf(RequestCancelledError),
+      expect(aborted).rejects.toMatchObject({ reason: 'aborted' }),
+    ]);
+    blocker.resolve();
+    await running;
+
+    expect(limiter.getStats()).toMatchObject({
+      queued: 0,
+      started: 1,
+      rejected: { queueFull: 0, timedOut: 1, cancelled: 1 },
+    });
+  });
+
+  it('keeps a shared read for the callers that are still waiting', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, minInterval: 0 });
+    const blocker = deferred();
+    const controller = new AbortController();
+    const lanes: string[] = [];
+    const read = async (priority: string) => {
+      lanes.push(priority);
+      return 'state';
+    };
+
+    const running = limiter.schedule(() => blocker.promise);
+    const first = limiter.schedule(read, { key: 'GET /deviceStatus/abc', priority: 'user', signal: controller.signal });
+    const second = limiter.schedule(read, { key: 'GET /deviceStatus/abc', priority: 'extended' });
+    controller.abort();
+
+    await expect(first).rejects.toMatchObject({ reason: 'aborted' });
+    blocker.resolve();
+    await running;
+    expect(await second).toBe('state');
+    expect(lanes).toEqual(['extended']);
+    expect(limiter.getStats()).toMatchObject({ started: 2, deduplicated: 1, rejected: { cancelled: 1 } });
+  });
+});
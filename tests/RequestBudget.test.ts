@@ -0,0 +1,79 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import RequestBudget, { RequestBudgetState } from '../lib/panasonic/RequestBudget';
+import { TokenStore } from '../lib/panasonic/Provider';
+
+const createMemoryStore = (initial: RequestBudgetState | null = null) => {
+  const store: TokenStore<RequestBudgetState> & { current: RequestBudgetState | null } = {
+    current: initial,
+    async get() {
+      return this.current;
+    },
+    async set(value: RequestBudgetState) {
+      this.current = value;
+    },
+    async unset() {
+      this.current = null;
+    },
+  };
+  return store;
+};
+
+describe('RequestBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the reserve for user commands', async () => {
+    const budget = new RequestBudget({ store: createMemoryStore(), getDailyLimit: () => 20, reserveRatio: 0.1 });
+    await budget.load();
+
+    for (let index = 0; index < 18; index += 1) {
+      expect(budget.tryConsume('essential')).toBe(true);
+    }
+    expect(budget.tryConsume('essential')).toBe(false);
+    expect(budget.tryConsume('user')).toBe(true);
+    expect(budget.tryConsume('user')).toBe(true);
+    expect(budget.tryConsume('user')).toBe(false);
+  });
+
+  it('stretches the poll intervals as the budget runs low', async () => {
+    const onStretchChanged = vi.fn();
+    const budget = new RequestBudget({ store: createMemoryStore(), getDailyLimit: () => 100, onStretchChanged });
+    await budget.load();
+
+    while (budget.tryConsume('environment')) {
+      // Use up everything polling may take.
+    }
+    expect(budget.getStretchFactor()).toBe(8);
+    expect(onStretchChanged).toHaveBeenCalled();
+
+    vi.advanceTimersByTime(12 * 60 * 60 * 1000);
+    budget.tryConsume('essential');
+    expect(budget.getStretchFactor()).toBe(1);
+  });
+
+  it('survives restarts through the store', async () => {
+    const store = createMemoryStore();
+    const budget = new RequestBudget({ store, getDailyLimit: () => 100 });
+    await budget.load();
+    for (let index = 0; index < 30; index += 1) {
+      budget.tryConsume('essential');
+    }
+    await Promise.resolve();
+
+    const restarted = new RequestBudget({ store, getDailyLimit: () => 100 });
+    await restarted.load();
+    expect(restarted.getSnapshot().remaining).toBe(70);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import WriteCoalescer from '../lib/panasonic/WriteCoalescer';
+import { DeviceState } from '../types';
+
+describe('WriteCoalescer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('merges changes made within the window into one write', async () => {
+    const write = vi.fn(async (patch: Partial<DeviceState>) => ({ on: true, ...patch }) as DeviceState);
+    const coalescer = new WriteCoalescer({ write, window: 100 });
+
+    const mode = coalescer.submit({ thermostatMode: 'cool' });
+    await vi.advanceTimersByTimeAsync(50);
+    const temperature = coalescer.submit({ targetTemperature: 21 });
+    await vi.advanceTimersByTimeAsync(50);
+    const latest = coalescer.submit({ targetTemperature: 22, fanSpeed: 'high' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    const results = await Promise.all([mode, temperature, latest]);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith({ thermostatMode: 'cool', targetTemperature: 22, fanSpeed: 'high' });
+    expect(new Set(results).size).toBe(1);
+  });
+
+  it('rejects every merged change when the write fails', async () => {
+    const coalescer = new WriteCoalescer({
+      write: async () => {
+        throw new Error('control rejected');
+      },
+      window: 100,
+    });
+
+    const changes = [coalescer.submit({ on: true }), coalescer.submit({ targetTemperature: 20 })];
+    const settled = Promise.allSettled(changes);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await settled).map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('sends changes arriving during a write with the next batch', async () => {
+    let finishWrite: () => void = () => undefined;
+    const write = vi.fn((patch: Partial<DeviceState>) => new Promise<DeviceState>((resolve) => {
+      finishWrite = () => resolve(patch as DeviceState);
+    }));
+    const coalescer = new WriteCoalescer({ write, window: 100, maxDelay: 100 });
+
+    const first = coalescer.submit({ on: true });
+    await vi.advanceTimersByTimeAsync(100);
+    const second = coalescer.submit({ on: false });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    finishWrite();
+    await first;
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenCalledTimes(2);
+    finishWrite();
+    expect(await second).toEqual({ on: false });
+  });
+
+  it('reports the changes that have not been written yet', async () => {
+    let finishWrite: () => void = () => undefined;
+    const write = vi.fn((patch: Partial<DeviceState>) => new Promise<DeviceState>((resolve) => {
+      finishWrite = () => resolve(patch as DeviceState);
+    }));
+    const coalescer = new WriteCoalescer({ write, window: 100 });
+
+    const mode = coalescer.submit({ thermostatMode: 'heat', targetTemperature: 20 });
+    await vi.advanceTimersByTimeAsync(100);
+    const temperature = coalescer.submit({ targetTemperature: 22 });
+    expect(coalescer.getPendingPatch()).toEqual({ thermostatMode: 'heat', targetTemperature: 22 });
+
+    finishWrite();
+    await mode;
+    expect(coalescer.getPendingPatch()).toEqual({ targetTemperature: 22 });
+    await vi.advanceTimersByTimeAsync(100);
+    finishWrite();
+    await temperature;
+    expect(coalescer.getPendingPatch()).toEqual({});
+  });
+});
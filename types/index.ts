@@ -1,6 +1,29 @@
 export type ThermostatMode = 'auto' | 'cool' | 'heat' | 'dry' | 'fan';
-export type FanSpeed = 'auto' | 'low' | 'medium' | 'high';
+/** Automatic or one of Panasonic's five fan levels; `medium` is the middle one. */
+export type FanSpeed = 'auto' | 'low' | 'low_medium' | 'medium' | 'medium_high' | 'high';
+/** Axes on which the vanes swing automatically; derived from the two vane positions. */
 export type SwingMode = 'off' | 'vertical' | 'horizontal' | 'both';
+export type VerticalVanePosition = 'auto' | 'up' | 'up_mid' | 'mid' | 'down_mid' | 'down';
+export type HorizontalVanePosition = 'auto' | 'left' | 'left_mid' | 'mid' | 'right_mid' | 'right';
+/** Operating sub-mode on top of the thermostat mode: normal (auto), powerful or quiet. */
+export type EcoMode = 'auto' | 'powerful' | 'quiet';
+export type AuthProviderKind = 'legacy' | 'oauth2';
+/** Lifecycle of a command queued while Comfort Cloud was unreachable. */
+export type OfflineCommandStatus = 'queued' | 'replayed' | 'failed' | 'expired';
+/** Device trigger cards fired for changes of a single capability. */
+export type CapabilityTriggerId =
+  | 'indoor_temperature_changed'
+  | 'humidity_changed'
+  | 'outdoor_temperature_changed'
+  | 'power_changed'
+  | 'mode_changed'
+  | 'fan_speed_changed'
+  | 'eco_mode_changed'
+  | 'nanoe_changed'
+  | 'eco_navi_changed'
+  | 'inside_cleaning_changed'
+  | 'filter_alarm_on'
+  | 'filter_alarm_off';
 
 export interface AuthTokens {
   accessToken: string;
@@ -8,17 +31,42 @@ export interface AuthTokens {
   /** Epoch millis */
   expiresAt: number;
   userId: string;
+  /** Login flow that issued the tokens; tokens without a provider come from the legacy login. */
+  provider?: AuthProviderKind;
+  /** Comfort Cloud client id assigned by `/auth/v2/login` (OAuth2 accounts only). */
+  clientId?: string;
+  /** Account email the tokens were issued for. */
+  email?: string;
 }
 
+/** Setpoint limits in °C. */
+export interface TemperatureRange {
+  min: number;
+  max: number;
+  /** The setpoint is an offset from the unit's own target rather than a temperature (auto mode of some units). */
+  offset?: boolean;
+}
+
+/**
+ * Setpoint limits of the modes whose range differs from the unit's overall range; `null` for
+ * modes without a setpoint (dry mode of some units).
+ */
+export type ModeTemperatureRanges = Partial<Record<ThermostatMode, TemperatureRange | null>>;
+
 export interface ComfortDeviceFeatures {
   minTemperature?: number;
   maxTemperature?: number;
+  temperatureRanges?: ModeTemperatureRanges;
   fanSpeeds: FanSpeed[];
   supportsHumidity: boolean;
   supportsOutdoorTemperature: boolean;
   supportsEnergyMonitoring: boolean;
   supportsSwingVertical: boolean;
   supportsSwingHorizontal: boolean;
+  supportsEcoMode: boolean;
+  supportsNanoe: boolean;
+  supportsEcoNavi: boolean;
+  supportsInsideCleaning: boolean;
 }
 
 export interface ComfortDevice {
@@ -37,19 +85,44 @@ export interface DeviceState {
   targetTemperature: number;
   minTemperature?: number;
   maxTemperature?: number;
+  temperatureRanges?: ModeTemperatureRanges;
   indoorTemperature?: number;
   indoorHumidity?: number;
   outdoorTemperature?: number;
   fanSpeed?: FanSpeed;
   swingMode?: SwingMode;
+  verticalVane?: VerticalVanePosition;
+  horizontalVane?: HorizontalVanePosition;
+  ecoMode?: EcoMode;
+  /** nanoe / nanoe X air purification. */
+  nanoe?: boolean;
+  /** ecoNavi presence sensing. */
+  ecoNavi?: boolean;
+  insideCleaning?: boolean;
   powerConsumption?: number;
   energyConsumption?: number;
   filterAlarm?: boolean;
   connectionAlarm?: boolean;
+  /** Whether Comfort Cloud reports the unit as connected; `undefined` when it does not say. */
+  online?: boolean;
+  /** Epoch millis at which the unit last reported these values to Comfort Cloud (or they were read, if unknown). */
   timestamp: number;
   raw?: Record<string, unknown>;
 }
 
+/** Settings a climate preset restores. */
+export type PresetSettings = Pick<
+  Partial<DeviceState>,
+  'on' | 'thermostatMode' | 'targetTemperature' | 'fanSpeed' | 'swingMode' | 'verticalVane' | 'horizontalVane'
+>;
+
+export interface ClimatePreset {
+  name: string;
+  settings: PresetSettings;
+  /** Epoch millis */
+  savedAt: number;
+}
+
 export interface ComfortCloudDeviceSummaryResponse {
   id: string;
   deviceGuid: string;